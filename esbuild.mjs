@@ -32,8 +32,25 @@ const testSuiteBuild = esbuild.context({
   ...baseOptions,
   entryPoints: [
     'src/test/suite/index.ts',
+    'src/test/suite/autoFocus.test.ts',
+    'src/test/suite/chromeWatchdog.test.ts',
+    'src/test/suite/config.test.ts',
     'src/test/suite/decorationManager.test.ts',
+    'src/test/suite/diffReview.test.ts',
     'src/test/suite/focusMode.test.ts',
+    'src/test/suite/focusSession.test.ts',
+    'src/test/suite/narrowRegion.test.ts',
+    'src/test/suite/notebookFocus.test.ts',
+    'src/test/suite/pinnedRegions.test.ts',
+    'src/test/suite/sentenceSpotlight.test.ts',
+    'src/test/suite/sessionTracker.test.ts',
+    'src/test/suite/statsHistory.test.ts',
+    'src/test/suite/symbolSpotlight.test.ts',
+    'src/test/suite/typewriterScroller.test.ts',
+    'src/test/suite/typingTrigger.test.ts',
+    'src/test/suite/uiManager.test.ts',
+    'src/test/suite/uriHandler.test.ts',
+    'src/test/suite/windowCoordinator.test.ts',
   ],
   outdir: 'out/test/suite',
 });
@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import { FocusModeConfig } from './config';
+import { SpotlightChangeEvent } from './decorationManager';
+import { FocusLevel, FocusMode, FocusState, FocusStateChangeEvent } from './focusMode';
+
+export type { FocusLevel, FocusModeConfig, FocusState, FocusStateChangeEvent, SpotlightChangeEvent };
+
+/**
+ * API returned from `activate()`, for other extensions:
+ *
+ * ```ts
+ * const api = vscode.extensions.getExtension<FocusModeApi>('prabinpebam.vscode-focus-mode')?.exports;
+ * api?.onDidChangeState((e) => { if (e.state === 'active') { pauseNotifications(); } });
+ * ```
+ */
+export interface FocusModeApi {
+  /** Enter focus mode, optionally with a `focusMode.presets` entry. No-op if already active. */
+  enter(preset?: string): Promise<void>;
+  /** Exit focus mode. No-op if inactive. */
+  exit(): Promise<void>;
+  /** Whether focus mode (full or soft) is on. */
+  readonly isActive: boolean;
+  /** Settings of the running session, or what entering now would use. */
+  readonly config: FocusModeConfig;
+  /** Fires for entering, active, exiting and inactive. */
+  readonly onDidChangeState: vscode.Event<FocusStateChangeEvent>;
+  /** Fires when the lit ranges of an editor change, and with no ranges when they are cleared. */
+  readonly onDidChangeSpotlight: vscode.Event<SpotlightChangeEvent>;
+}
+
+export function createApi(focusMode: FocusMode): FocusModeApi {
+  return {
+    enter: (preset?: string) => focusMode.enter(preset),
+    exit: () => focusMode.exit(),
+    get isActive() { return focusMode.active; },
+    get config() { return focusMode.currentConfig; },
+    onDidChangeState: focusMode.onDidChangeState,
+    onDidChangeSpotlight: focusMode.onDidChangeSpotlight,
+  };
+}
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { FocusMode } from './focusMode';
+
+/** One `focusMode.autoRules` entry. A rule with both fields must match both. */
+export interface AutoRule {
+  /** Glob for the file path, relative to its workspace folder, e.g. `docs/**`. */
+  pattern?: string;
+  /** Language id, e.g. `markdown` or `plaintext`. */
+  language?: string;
+  /** `focusMode.presets` entry to enter with. */
+  preset?: string;
+}
+
+/** Wait for the active editor to settle before acting, so quick switches don't thrash the layout. */
+const SETTLE_DELAY_MS = 400;
+const SNOOZE_KEY = 'focusMode.autoRulesSnoozedUntil';
+/** Documents rules apply to; output channels, diff sides, etc. are ignored. */
+const RULE_SCHEMES = new Set(['file', 'untitled']);
+
+/**
+ * Enters focus mode automatically for documents matching `focusMode.autoRules`
+ * and exits when switching to a document that doesn't match.
+ *
+ * Only sessions it entered itself are exited: a session started by hand,
+ * or by a timed session, is left alone.
+ */
+export class AutoFocus {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  /** Whether the running focus session was entered by a rule, and with which preset. */
+  private autoEntered = false;
+  private autoPreset: string | undefined;
+  private readonly stateListener: vscode.Disposable;
+
+  constructor(private context: vscode.ExtensionContext, private focusMode: FocusMode) {
+    vscode.commands.executeCommand('setContext', 'focusMode.autoRulesSnoozed', this.isSnoozed());
+    // However the session ends (by hand, a timed session, a rule), the rules
+    // no longer own it; a session entered next by hand must not be exited.
+    this.stateListener = focusMode.onDidChangeState((e) => {
+      if (e.state === 'inactive') {
+        this.autoEntered = false;
+      }
+    });
+  }
+
+  /** Re-evaluate the rules once the active editor has settled. */
+  schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.evaluate(vscode.window.activeTextEditor);
+    }, SETTLE_DELAY_MS);
+  }
+
+  /** Suspend the rules in this workspace, leaving any rule-entered session. */
+  async snooze(): Promise<void> {
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: 'For 30 minutes', minutes: 30 },
+        { label: 'For 1 hour', minutes: 60 },
+        { label: 'For 4 hours', minutes: 240 },
+        { label: 'Until resumed', minutes: Infinity },
+      ],
+      { placeHolder: 'Snooze focus mode auto rules in this workspace' }
+    );
+    if (!picked) { return; }
+
+    // Infinity doesn't survive JSON; -1 means "until resumed"
+    const until = picked.minutes === Infinity ? -1 : Date.now() + picked.minutes * 60_000;
+    await this.context.workspaceState.update(SNOOZE_KEY, until);
+    await vscode.commands.executeCommand('setContext', 'focusMode.autoRulesSnoozed', true);
+
+    if (this.autoEntered && this.focusMode.active) {
+      await this.focusMode.exit();
+    }
+    this.autoEntered = false;
+  }
+
+  /** Lift a snooze and apply the rules to the current editor right away. */
+  async resume(): Promise<void> {
+    await this.context.workspaceState.update(SNOOZE_KEY, undefined);
+    await vscode.commands.executeCommand('setContext', 'focusMode.autoRulesSnoozed', false);
+    await this.evaluate(vscode.window.activeTextEditor);
+  }
+
+  dispose(): void {
+    this.stateListener.dispose();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * The first rule matching `document`, or undefined.
+   * Patterns are relative to the document's workspace folder unless they
+   * start with `**` or `/`. Rules without a pattern or language are ignored.
+   */
+  static findRule(rules: AutoRule[], document: vscode.TextDocument): AutoRule | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    return rules.find((rule) => {
+      if (rule.pattern === undefined && rule.language === undefined) { return false; }
+      const pattern = rule.pattern !== undefined && folder && !/^(\*\*|\/)/.test(rule.pattern)
+        ? new vscode.RelativePattern(folder, rule.pattern)
+        : rule.pattern;
+      return vscode.languages.match({ pattern, language: rule.language }, document) > 0;
+    });
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  private async evaluate(editor: vscode.TextEditor | undefined): Promise<void> {
+    // Focus moved to a panel, webview or non-file editor: keep the current state
+    if (!editor || !RULE_SCHEMES.has(editor.document.uri.scheme)) { return; }
+
+    if (this.isSnoozed()) { return; }
+
+    const rules = vscode.workspace.getConfiguration('focusMode').get<AutoRule[]>('autoRules', []);
+    const rule = Array.isArray(rules) ? AutoFocus.findRule(rules, editor.document) : undefined;
+
+    if (rule) {
+      if (!this.focusMode.active || this.focusMode.activeLevel === 'soft') {
+        await this.focusMode.enter(rule.preset);
+        this.autoEntered = this.focusMode.active;
+        this.autoPreset = rule.preset;
+      } else if (this.autoEntered && rule.preset !== this.autoPreset) {
+        await this.focusMode.exit();
+        await this.focusMode.enter(rule.preset);
+        this.autoEntered = this.focusMode.active;
+        this.autoPreset = rule.preset;
+      }
+    } else if (this.autoEntered && this.focusMode.active) {
+      await this.focusMode.exit();
+      this.autoEntered = false;
+    }
+  }
+
+  private isSnoozed(): boolean {
+    const until = this.context.workspaceState.get<number>(SNOOZE_KEY);
+    if (until === undefined) { return false; }
+    if (until === -1 || until > Date.now()) { return true; }
+
+    // Expired: clear it so the palette hides "Resume"
+    this.context.workspaceState.update(SNOOZE_KEY, undefined);
+    vscode.commands.executeCommand('setContext', 'focusMode.autoRulesSnoozed', false);
+    return false;
+  }
+}
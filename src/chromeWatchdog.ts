@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import { FocusModeConfig, WatchdogAllowance } from './config';
+import { getContextBoolean, getContextKey } from './contextKeys';
+
+/** Workbench parts the watchdog keeps closed. */
+export type ChromePart = 'sideBar' | 'panel' | 'auxiliaryBar';
+
+/** Workbench state read from context keys on each poll. */
+export interface ChromeState {
+  sideBarVisible: boolean;
+  panelVisible: boolean;
+  auxiliaryBarVisible: boolean;
+  /** Id of the view shown in the panel (`activePanel` context key). */
+  activePanel: string | undefined;
+  inDebugMode: boolean;
+}
+
+const POLL_INTERVAL_MS = 500;
+
+/** Panel view ids for the view-specific allowances. */
+const PANEL_VIEWS: [WatchdogAllowance, string][] = [
+  ['debugConsole', 'workbench.panel.repl'],
+  ['terminal', 'terminal'],
+  ['output', 'workbench.panel.output'],
+  ['problems', 'workbench.panel.markers'],
+];
+
+const CLOSE_COMMANDS: Record<ChromePart, string> = {
+  sideBar: 'workbench.action.closeSidebar',
+  panel: 'workbench.action.closePanel',
+  auxiliaryBar: 'workbench.action.closeAuxiliaryBar',
+};
+
+/**
+ * Keeps the sidebar, panel and auxiliary bar closed during focus mode.
+ *
+ * `UIManager.hideChrome` closes them once; builds, debuggers and other
+ * extensions often reopen them. There is no visibility event for these
+ * parts, so the watchdog polls their context keys and closes any part that
+ * reappears, unless an allowance (`focusMode.watchdogAllow`) covers it.
+ */
+export class ChromeWatchdog {
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private guarded: ChromePart[] = [];
+  private allow: WatchdogAllowance[] = [];
+  private polling = false;
+
+  /** Start, update or stop guarding to match the config. */
+  configure(config: FocusModeConfig): void {
+    this.guarded = config.watchdog ? ChromeWatchdog.guardedParts(config) : [];
+    this.allow = config.watchdogAllow;
+
+    if (this.guarded.length === 0) {
+      this.stop();
+    } else if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /** Parts focus mode closes for this config (the auxiliary bar is always closed). */
+  static guardedParts(config: FocusModeConfig): ChromePart[] {
+    const parts: ChromePart[] = [];
+    if (config.hideSideBar) { parts.push('sideBar'); }
+    if (config.hidePanel) { parts.push('panel'); }
+    parts.push('auxiliaryBar');
+    return parts;
+  }
+
+  /** Guarded parts that are visible and not covered by an allowance. */
+  static partsToClose(state: ChromeState, guarded: ChromePart[], allow: WatchdogAllowance[]): ChromePart[] {
+    return guarded.filter((part) => state[`${part}Visible`] && !ChromeWatchdog.isAllowed(part, state, allow));
+  }
+
+  /**
+   * Whether `part` may stay open. Panel view allowances apply only while
+   * that view is showing; `debugConsole` also requires a debug session.
+   */
+  static isAllowed(part: ChromePart, state: ChromeState, allow: WatchdogAllowance[]): boolean {
+    if (allow.includes(part)) { return true; }
+    if (part !== 'panel') { return false; }
+
+    return PANEL_VIEWS.some(([allowance, view]) =>
+      allow.includes(allowance) &&
+      state.activePanel === view &&
+      (allowance !== 'debugConsole' || state.inDebugMode)
+    );
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  private async poll(): Promise<void> {
+    if (this.polling) { return; }
+    this.polling = true;
+    try {
+      const state = await ChromeWatchdog.readState();
+      for (const part of ChromeWatchdog.partsToClose(state, this.guarded, this.allow)) {
+        // Stopped while reading state (e.g. exit began) — leave the layout to restoreChrome
+        if (!this.timer) { break; }
+        await vscode.commands.executeCommand(CLOSE_COMMANDS[part]);
+      }
+    } catch {
+      // best-effort: try again on the next poll
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private static async readState(): Promise<ChromeState> {
+    const activePanel = await getContextKey('activePanel');
+    return {
+      sideBarVisible: await getContextBoolean('sideBarVisible'),
+      panelVisible: await getContextBoolean('panelVisible'),
+      auxiliaryBarVisible: await getContextBoolean('auxiliaryBarVisible'),
+      activePanel: typeof activePanel === 'string' ? activePanel : undefined,
+      inDebugMode: await getContextBoolean('inDebugMode'),
+    };
+  }
+}
@@ -14,26 +14,216 @@ export interface FocusModeConfig {
   hideMinimap: boolean;
   /** Whether to collapse to a single editor group. */
   singleEditorOnly: boolean;
+  /** Whether to close the primary sidebar. */
+  hideSideBar: boolean;
+  /** Whether to close the panel (terminal, problems, output). */
+  hidePanel: boolean;
+  /** Whether to re-close the sidebar, panel and auxiliary bar when something reopens them. */
+  watchdog: boolean;
+  /** Views the watchdog leaves open. */
+  watchdogAllow: WatchdogAllowance[];
+  /** What stays lit: the cursor line, its paragraph, the line plus context lines, the enclosing symbol, or the sentence. */
+  scope: 'line' | 'paragraph' | 'context' | 'symbol' | 'sentence';
+  /** Lines kept lit above and below the cursor when scope is 'context' (0–50). */
+  contextLines: number;
+  /** How dimmed text looks: faded, recolored, faded without syntax colors, or left alone with a spotlight background. */
+  dimStyle: 'opacity' | 'color' | 'desaturate' | 'band';
+  /** Dimming profile: one flat level, or bands fading with distance from the spotlight. */
+  fade: 'flat' | 'gradient';
+  /** Number of opacity bands in gradient mode (2–10); the last band uses `opacity`. */
+  fadeBands: number;
+  /** Lines per band in gradient mode (1–50). */
+  fadeFalloff: number;
+  /** Other visible editors: keep their own spotlight, or dim them entirely. */
+  inactiveEditors: 'spotlight' | 'dim';
+  /** Whether to collapse notebook cell outputs for the session. */
+  collapseNotebookOutputs: boolean;
+  /** Whether to show the hunk position and reviewed count in diff editors. */
+  reviewProgress: boolean;
+  /** Whether to keep the cursor line at a fixed vertical position. */
+  typewriter: boolean;
+  /** Vertical position for typewriter scrolling, as a fraction from the top (0.1–0.9). */
+  typewriterPosition: number;
 }
 
+/**
+ * Exceptions to the chrome watchdog: a whole part (`sideBar`, `panel`,
+ * `auxiliaryBar`), or the panel while it shows a given view.
+ */
+export type WatchdogAllowance =
+  'debugConsole' | 'terminal' | 'output' | 'problems' | 'sideBar' | 'panel' | 'auxiliaryBar';
+
+/** A named bundle of config overrides from `focusMode.presets`. */
+export type FocusModePreset = Partial<FocusModeConfig>;
+
 /**
  * Reads the current Focus Mode configuration from VS Code settings.
  * Returns typed defaults for any missing/invalid values.
+ *
+ * Settings are resolved for `scope`, so language-specific (`"[markdown]": {...}`)
+ * and workspace-folder values apply to the document being edited.
+ *
+ * @param preset     Name of a `focusMode.presets` entry whose values take
+ *                   precedence over the individual settings. Unknown names
+ *                   are ignored.
+ * @param scope      Resource or document to resolve settings for (usually the active document).
+ * @param invocation Values for this invocation only (command or URI arguments);
+ *                   they take precedence over the preset.
  */
-export function getConfig(): FocusModeConfig {
-  const cfg = vscode.workspace.getConfiguration('focusMode');
+export function getConfig(
+  preset?: string,
+  scope?: vscode.ConfigurationScope,
+  invocation: FocusModePreset = {}
+): FocusModeConfig {
+  const cfg = vscode.workspace.getConfiguration('focusMode', scope);
+  const presets = getPresets(scope);
+  const overrides: FocusModePreset = {
+    // Own entries only: a name like `toString` isn't a preset
+    ...(preset !== undefined && Object.prototype.hasOwnProperty.call(presets, preset) ? presets[preset] : undefined),
+    ...invocation,
+  };
+  const get = <K extends keyof FocusModeConfig>(key: K, fallback: FocusModeConfig[K]): FocusModeConfig[K] =>
+    overrides[key] ?? cfg.get<FocusModeConfig[K]>(key, fallback);
 
-  let opacity = cfg.get<number>('opacity', 0.5);
+  let opacity = get('opacity', 0.5);
   if (opacity < 0.1) { opacity = 0.1; }
   if (opacity > 0.9) { opacity = 0.9; }
 
+  const contextLines = clampInteger(get('contextLines', 2), 0, 50);
+  const fadeBands = clampInteger(get('fadeBands', 4), 2, 10);
+  const fadeFalloff = clampInteger(get('fadeFalloff', 3), 1, 50);
+
+  let typewriterPosition = get('typewriterPosition', 0.5);
+  if (!(typewriterPosition >= 0.1)) { typewriterPosition = 0.1; }
+  if (typewriterPosition > 0.9) { typewriterPosition = 0.9; }
+
+  const watchdogAllow = get('watchdogAllow', ['debugConsole']);
+
   return {
     opacity,
-    lineNumbers: cfg.get<FocusModeConfig['lineNumbers']>('lineNumbers', 'off'),
-    fullScreen: cfg.get<boolean>('fullScreen', true),
-    centerLayout: cfg.get<boolean>('centerLayout', true),
-    hideMinimap: cfg.get<boolean>('hideMinimap', true),
-    singleEditorOnly: cfg.get<boolean>('singleEditorOnly', true),
+    lineNumbers: get('lineNumbers', 'off'),
+    fullScreen: get('fullScreen', true),
+    centerLayout: get('centerLayout', true),
+    hideMinimap: get('hideMinimap', true),
+    singleEditorOnly: get('singleEditorOnly', true),
+    hideSideBar: get('hideSideBar', true),
+    hidePanel: get('hidePanel', true),
+    watchdog: get('watchdog', false),
+    watchdogAllow: Array.isArray(watchdogAllow) ? watchdogAllow : [],
+    scope: get('scope', 'line'),
+    contextLines,
+    dimStyle: get('dimStyle', 'opacity'),
+    fade: get('fade', 'flat'),
+    fadeBands,
+    fadeFalloff,
+    inactiveEditors: get('inactiveEditors', 'spotlight'),
+    collapseNotebookOutputs: get('collapseNotebookOutputs', false),
+    reviewProgress: get('reviewProgress', true),
+    typewriter: get('typewriter', false),
+    typewriterPosition,
+  };
+}
+
+/** How to enter focus mode, from command or URI arguments. */
+export interface EnterOptions {
+  preset?: string;
+  /** `FocusModeConfig` values for this session only. */
+  overrides: FocusModePreset;
+}
+
+/** Allowed values of the enum fields (and of `watchdogAllow` items), as in package.json. */
+const ENUM_VALUES: { readonly [K in keyof FocusModeConfig]?: readonly string[] } = {
+  lineNumbers: ['off', 'on', 'relative', 'inherit'],
+  watchdogAllow: ['debugConsole', 'terminal', 'output', 'problems', 'sideBar', 'panel', 'auxiliaryBar'],
+  scope: ['line', 'paragraph', 'context', 'symbol', 'sentence'],
+  dimStyle: ['opacity', 'color', 'desaturate', 'band'],
+  fade: ['flat', 'gradient'],
+  inactiveEditors: ['spotlight', 'dim'],
+};
+
+/**
+ * Interpret a command argument: a preset name, or an object with an optional
+ * `preset` plus any `FocusModeConfig` fields. Unknown keys, values of the
+ * wrong type, unknown enum values and non-finite numbers are dropped; ranges
+ * are clamped later by `getConfig`.
+ */
+export function parseEnterOptions(arg: unknown): EnterOptions {
+  if (typeof arg === 'string') { return { preset: arg, overrides: {} }; }
+  if (!arg || typeof arg !== 'object') { return { overrides: {} }; }
+
+  const { preset, ...fields } = arg as Record<string, unknown>;
+  const defaults = getConfig();
+  const overrides: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (!(key in defaults)) { continue; }
+    const expected = defaults[key as keyof FocusModeConfig];
+    const allowed = ENUM_VALUES[key as keyof FocusModeConfig];
+    const valid = Array.isArray(expected)
+      ? Array.isArray(value) && (!allowed || value.every((item) => allowed.includes(item)))
+      : typeof value === typeof expected
+        && (typeof value !== 'number' || Number.isFinite(value))
+        && (!allowed || allowed.includes(value as string));
+    if (valid) {
+      overrides[key] = value;
+    }
+  }
+  return {
+    preset: typeof preset === 'string' ? preset : undefined,
+    overrides: overrides as FocusModePreset,
+  };
+}
+
+/** Reads the named presets from `focusMode.presets`. */
+export function getPresets(scope?: vscode.ConfigurationScope): Record<string, FocusModePreset> {
+  const presets = vscode.workspace.getConfiguration('focusMode', scope).get<Record<string, FocusModePreset>>('presets');
+  return presets && typeof presets === 'object' ? presets : {};
+}
+
+/** Timing for `Start Focus Session`, from the `focusMode.session*` settings. */
+export interface SessionConfig {
+  /** Length of one focus block in minutes (1–480). */
+  minutes: number;
+  /** Length of the break between focus blocks in minutes; 0 ends the session after one block (0–120). */
+  breakMinutes: number;
+  /** Number of focus blocks in a work/break cycle (1–24). */
+  cycles: number;
+  /** Minutes before the end of a block or break to show a warning; 0 disables it (0–30). */
+  warningMinutes: number;
+}
+
+/**
+ * Reads the timed-session settings, clamped to their valid ranges.
+ *
+ * @param overrides Values that take precedence over the settings, e.g. from
+ *                  command arguments. Clamped the same way.
+ */
+export function getSessionConfig(overrides: Partial<SessionConfig> = {}): SessionConfig {
+  const cfg = vscode.workspace.getConfiguration('focusMode');
+  return {
+    minutes: clampInteger(overrides.minutes ?? cfg.get<number>('sessionMinutes', 25), 1, 480),
+    breakMinutes: clampInteger(overrides.breakMinutes ?? cfg.get<number>('breakMinutes', 5), 0, 120),
+    cycles: clampInteger(overrides.cycles ?? cfg.get<number>('sessionCycles', 4), 1, 24),
+    warningMinutes: clampInteger(overrides.warningMinutes ?? cfg.get<number>('sessionWarningMinutes', 1), 0, 30),
+  };
+}
+
+/** Typing-triggered soft focus, from the `focusMode.typing*` settings. */
+export interface TypingTriggerConfig {
+  /** Whether sustained typing enters soft focus. */
+  enabled: boolean;
+  /** Seconds of continuous typing before soft focus starts (1–120). */
+  streakSeconds: number;
+  /** Seconds without an edit before soft focus ends (2–600). */
+  idleSeconds: number;
+}
+
+/** Reads the typing-trigger settings, clamped to their valid ranges. */
+export function getTypingTriggerConfig(): TypingTriggerConfig {
+  const cfg = vscode.workspace.getConfiguration('focusMode');
+  return {
+    enabled: cfg.get<boolean>('typingTrigger', false),
+    streakSeconds: clampInteger(cfg.get<number>('typingStreakSeconds', 8), 1, 120),
+    idleSeconds: clampInteger(cfg.get<number>('typingIdleSeconds', 15), 2, 600),
   };
 }
 
@@ -51,3 +241,10 @@ export function toLineNumberStyle(
     case 'inherit': return undefined;
   }
 }
+
+/** Round down and clamp a numeric setting, falling back to `min` for non-numbers. */
+function clampInteger(value: number, min: number, max: number): number {
+  const n = Math.floor(value);
+  if (!(n >= min)) { return min; }
+  return n > max ? max : n;
+}
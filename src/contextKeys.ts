@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+
+/**
+ * Read a workbench context key (e.g. `panelVisible`).
+ * Uses the internal `getContextKeyValue` command; resolves to undefined if
+ * the key is unset or the command is unavailable.
+ */
+export async function getContextKey(key: string): Promise<unknown> {
+  try {
+    return await vscode.commands.executeCommand<unknown>('getContextKeyValue', key);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Read a boolean context key; anything but `true` reads as false. */
+export async function getContextBoolean(key: string): Promise<boolean> {
+  return (await getContextKey(key)) === true;
+}
@@ -1,96 +1,851 @@
 import * as vscode from 'vscode';
+import { FocusModeConfig } from './config';
+import { sentenceAt } from './sentenceSpotlight';
+import { LineSpan, SymbolSpotlight } from './symbolSpotlight';
+
+/** The lit part of an editor changed (empty `ranges` when decorations were cleared). */
+export interface SpotlightChangeEvent {
+  readonly editor: vscode.TextEditor;
+  /** Lit regions: whole lines, or the sentence itself in the `sentence` scope. */
+  readonly ranges: readonly vscode.Range[];
+}
+
+/** Decoration styles for one dim style, from `computeDimStyles`. */
+export interface DimStyles {
+  /** Whole-line dim styles, nearest band first. */
+  bands: vscode.DecorationRenderOptions[];
+  /** Character-range dim style for the rest of a sentence's lines. */
+  partial: vscode.DecorationRenderOptions;
+}
+
+/** Upper bound for the spotlight radius reachable through grow commands. */
+const MAX_SPOTLIGHT_RADIUS = 100;
+/** Documents up to this many lines are decorated whole; longer ones only around the viewport. */
+const FULL_PAINT_LINES = 5000;
+/** Lines decorated beyond each edge of the viewport in long documents, so scrolling doesn't outrun repaints. */
+const VIEWPORT_MARGIN_LINES = 300;
+/** Least opacity on high-contrast themes, where heavier dimming would defeat their contrast. */
+const HIGH_CONTRAST_MIN_OPACITY = 0.7;
 
 /**
- * Manages the dimming decoration that creates the "spotlight" effect.
+ * Manages the dimming decorations that create the "spotlight" effect.
+ *
+ * Strategy: TextEditorDecorationTypes with reduced opacity are applied
+ * to all lines EXCEPT the spotlight lines. The spotlight starts at the
+ * cursor lines and is widened according to the configured scope.
  *
- * Strategy: one TextEditorDecorationType with reduced opacity is applied
- * to all lines EXCEPT the lines where cursors are positioned.
+ * In `flat` fade there is a single dim level. In `gradient` fade there is
+ * one decoration type per opacity band, and each dimmed line goes to the
+ * band matching its distance from the nearest spotlight line.
+ *
+ * The `sentence` scope also dims the parts of the sentence's own lines that
+ * fall outside it, through a separate character-range decoration type.
+ *
+ * `dimStyle` picks how dimmed text looks (see `computeDimStyles`); the `band`
+ * style leaves text alone and instead paints a background behind the
+ * spotlight. Theme colors follow the active theme by themselves; decoration
+ * types are recreated when the theme kind changes, to apply the
+ * high-contrast opacity floor.
+ *
+ * Updates are cheap to repeat: an editor is repainted only when something
+ * that shapes its decorations changed (document version, selections, spotlight
+ * size, pins, viewport window or decoration types). Documents longer than
+ * FULL_PAINT_LINES are decorated only around their visible ranges; call
+ * `updateDecorations` again when those change.
+ *
+ * Pinned lines (see `setPinSource`) are never dimmed, but are not part of
+ * the spotlight: fade bands and spotlight events ignore them.
  */
 export class DecorationManager {
-  private dimDecoration: vscode.TextEditorDecorationType;
+  // Decoration types and the config they were built from (set in createDecorationTypes)
+  /** Whole-line dim types, nearest band first; the last one uses the configured opacity. */
+  private dimDecorations!: vscode.TextEditorDecorationType[];
+  private partialDimDecoration!: vscode.TextEditorDecorationType;
+  /** Background behind the spotlight in the `band` style: whole lines, and sentence ranges. */
+  private bandDecoration!: vscode.TextEditorDecorationType;
+  private partialBandDecoration!: vscode.TextEditorDecorationType;
+  private fadeFalloff!: number;
+  private appliedOpacity!: number;
+  private dimStyle!: FocusModeConfig['dimStyle'];
+  private highContrast!: boolean;
+  private scope!: FocusModeConfig['scope'];
+  private contextLines!: number;
+  /** Session-only radius change from the grow/shrink commands. */
+  private radiusAdjustment = 0;
+  private symbolSpotlight = new SymbolSpotlight();
+  /** Editors currently carrying a spotlight from this manager. */
+  private decorated = new Set<vscode.TextEditor>();
+  /** What was last painted in each editor, to skip repaints that would change nothing. */
+  private painted = new WeakMap<vscode.TextEditor, { key: string; window: LineSpan }>();
+  /** Bumped whenever decoration types are recreated, which wipes every editor. */
+  private generation = 0;
+  /** Last spotlight reported per editor, to fire change events only on change. */
+  private lastSpotlight = new WeakMap<vscode.TextEditor, string>();
+  private spotlightEmitter = new vscode.EventEmitter<SpotlightChangeEvent>();
+  private pinSource: (document: vscode.TextDocument) => LineSpan[] = () => [];
 
-  constructor(opacity: number) {
-    this.dimDecoration = vscode.window.createTextEditorDecorationType({
-      opacity: String(opacity),
-      isWholeLine: true,
-    });
+  /** Fires when the lit ranges of an editor change. */
+  readonly onDidChangeSpotlight = this.spotlightEmitter.event;
+
+  constructor(config: FocusModeConfig) {
+    this.createDecorationTypes(config);
   }
 
   /**
    * Recompute and apply dimmed ranges for the given editor.
-   * All lines except cursor lines get the dim decoration.
+   * All lines outside the spotlight get the dim decoration.
+   * Does nothing if the result would match what is already painted.
    */
   updateDecorations(editor: vscode.TextEditor): void {
     const totalLines = editor.document.lineCount;
     if (totalLines === 0) {
-      editor.setDecorations(this.dimDecoration, []);
+      this.clearDecorations(editor);
       return;
     }
 
-    const cursorLines = DecorationManager.getCursorLines(editor);
-    const dimmedRanges = DecorationManager.computeDimmedRanges(cursorLines, totalLines);
-    editor.setDecorations(this.dimDecoration, dimmedRanges);
+    const document = editor.document;
+    const symbols = this.scope === 'symbol' ? this.symbolSpotlight.peek(document) : undefined;
+    const symbolsPending = this.scope === 'symbol' && !this.symbolSpotlight.isCurrent(document);
+    if (symbolsPending) {
+      // Paint with the previous version's symbols (or lines) now, repaint once they arrive
+      this.symbolSpotlight.load(document).then(() => {
+        if (this.decorated.has(editor) && this.scope === 'symbol') {
+          this.updateDecorations(editor);
+        }
+      });
+    }
+
+    const pins = this.pinSource(document);
+    const window = DecorationManager.paintWindow(
+      DecorationManager.visibleSpan(editor),
+      this.painted.get(editor)?.window,
+      totalLines
+    );
+    // The sentence scope depends on the cursor column; the others only on lines
+    const selectionKey = this.scope === 'sentence'
+      ? editor.selections.map((sel) => `${sel.anchor.line}:${sel.anchor.character}>${sel.active.line}:${sel.active.character}`)
+      : DecorationManager.getSelectionSpans(editor.selections).map((span) => `${span.start}-${span.end}`);
+    const key = [
+      this.generation,
+      document.version,
+      selectionKey.join(','),
+      this.spotlightRadius(),
+      symbolsPending,
+      `${window.start}-${window.end}`,
+      pins.map((pin) => `${pin.start}-${pin.end}`).join(','),
+    ].join('|');
+    if (this.painted.get(editor)?.key === key && this.decorated.has(editor)) { return; }
+    this.painted.set(editor, { key, window });
+
+    let baseSpans = DecorationManager.getSelectionSpans(editor.selections);
+    let partialRanges: vscode.Range[] = [];
+    let litRanges: vscode.Range[] | undefined;
+    if (this.scope === 'sentence') {
+      // Sentence lines are lit whole; the rest of those lines is dimmed
+      // by character range unless the spotlight has been grown.
+      // Selected text stays lit along with the sentences.
+      const sentences = [
+        ...DecorationManager.getSentenceRanges(editor, window),
+        ...editor.selections.filter((sel) => !sel.isEmpty),
+      ];
+      baseSpans = DecorationManager.mergeSpans([
+        ...baseSpans,
+        ...sentences.map((sentence) => ({ start: sentence.start.line, end: sentence.end.line })),
+      ]);
+      if (this.spotlightRadius() === 0) {
+        partialRanges = DecorationManager.computePartialDimmedRanges(
+          sentences,
+          (line) => document.lineAt(line).text.length
+        );
+        litRanges = sentences;
+      }
+    }
+
+    const spotlightSpans = DecorationManager.expandSpotlight(
+      baseSpans,
+      totalLines,
+      this.scope,
+      this.spotlightRadius(),
+      (line) => document.lineAt(line).isEmptyOrWhitespace,
+      (line) => SymbolSpotlight.findEnclosing(symbols ?? [], line, document.languageId),
+      window
+    );
+    const dimmedRanges = DecorationManager.computeDimmedRanges([...spotlightSpans, ...pins], totalLines);
+    const bands = DecorationManager.computeFadeBands(
+      dimmedRanges,
+      totalLines,
+      this.dimDecorations.length,
+      this.fadeFalloff,
+      window
+    );
+    const lineRanges = spotlightSpans.map(
+      (span) => new vscode.Range(span.start, 0, span.end, document.lineAt(span.end).text.length)
+    );
+    if (this.dimStyle === 'band') {
+      this.dimDecorations.forEach((decoration) => editor.setDecorations(decoration, []));
+      editor.setDecorations(this.partialDimDecoration, []);
+      editor.setDecorations(this.bandDecoration, litRanges ? [] : lineRanges);
+      editor.setDecorations(this.partialBandDecoration, litRanges ?? []);
+    } else {
+      this.dimDecorations.forEach((decoration, i) => editor.setDecorations(decoration, bands[i]));
+      editor.setDecorations(
+        this.partialDimDecoration,
+        partialRanges.filter((range) => !pins.some((pin) => pin.start <= range.start.line && range.start.line <= pin.end))
+      );
+      editor.setDecorations(this.bandDecoration, []);
+      editor.setDecorations(this.partialBandDecoration, []);
+    }
+    this.decorated.add(editor);
+
+    this.reportSpotlight(editor, litRanges ?? lineRanges);
+  }
+
+  /**
+   * Dim every line of the given editor, with no spotlight (an inactive
+   * editor when `inactiveEditors` is `dim`). Uses the farthest band.
+   */
+  dimEditor(editor: vscode.TextEditor): void {
+    const totalLines = editor.document.lineCount;
+    const pins = this.pinSource(editor.document);
+    const key = ['dim', this.generation, editor.document.version, pins.map((pin) => `${pin.start}-${pin.end}`).join(',')].join('|');
+    if (this.painted.get(editor)?.key === key) { return; }
+
+    const all = DecorationManager.computeDimmedRanges(pins, totalLines);
+    const last = this.dimStyle === 'band' ? -1 : this.dimDecorations.length - 1;
+    this.dimDecorations.forEach((decoration, i) => editor.setDecorations(decoration, i === last ? all : []));
+    editor.setDecorations(this.partialDimDecoration, []);
+    editor.setDecorations(this.bandDecoration, []);
+    editor.setDecorations(this.partialBandDecoration, []);
+    this.decorated.delete(editor);
+    this.painted.set(editor, { key, window: { start: 0, end: totalLines - 1 } });
+    this.reportSpotlight(editor, []);
+  }
+
+  /**
+   * Leave every line of the given editor lit (the active notebook cell).
+   * In the `band` style the whole editor gets the spotlight background.
+   */
+  lightEditor(editor: vscode.TextEditor): void {
+    const document = editor.document;
+    const last = document.lineCount - 1;
+    const key = ['light', this.generation, document.version].join('|');
+    if (this.painted.get(editor)?.key === key) { return; }
+
+    const whole = last < 0 ? [] : [new vscode.Range(0, 0, last, document.lineAt(last).text.length)];
+    this.dimDecorations.forEach((decoration) => editor.setDecorations(decoration, []));
+    editor.setDecorations(this.partialDimDecoration, []);
+    editor.setDecorations(this.bandDecoration, this.dimStyle === 'band' ? whole : []);
+    editor.setDecorations(this.partialBandDecoration, []);
+    this.decorated.delete(editor);
+    this.painted.set(editor, { key, window: { start: 0, end: last } });
+    this.reportSpotlight(editor, whole);
+  }
+
+  /**
+   * Keep the given line spans lit instead of the cursor's spotlight (the
+   * diff hunk under review) and dim the rest. Scope and spotlight size don't
+   * apply; fade bands and the `band` style do.
+   */
+  spotlightSpans(editor: vscode.TextEditor, lit: readonly LineSpan[]): void {
+    const document = editor.document;
+    const totalLines = document.lineCount;
+    if (totalLines === 0) {
+      this.clearDecorations(editor);
+      return;
+    }
+
+    const pins = this.pinSource(document);
+    const window = DecorationManager.paintWindow(
+      DecorationManager.visibleSpan(editor),
+      this.painted.get(editor)?.window,
+      totalLines
+    );
+    const key = [
+      'spans',
+      this.generation,
+      document.version,
+      lit.map((span) => `${span.start}-${span.end}`).join(','),
+      `${window.start}-${window.end}`,
+      pins.map((pin) => `${pin.start}-${pin.end}`).join(','),
+    ].join('|');
+    if (this.painted.get(editor)?.key === key) { return; }
+    this.painted.set(editor, { key, window });
+
+    const dimmedRanges = DecorationManager.computeDimmedRanges([...lit, ...pins], totalLines);
+    const bands = DecorationManager.computeFadeBands(
+      dimmedRanges,
+      totalLines,
+      this.dimDecorations.length,
+      this.fadeFalloff,
+      window
+    );
+    const lineRanges = lit.map(
+      (span) => new vscode.Range(span.start, 0, span.end, document.lineAt(span.end).text.length)
+    );
+    const band = this.dimStyle === 'band';
+    this.dimDecorations.forEach((decoration, i) => editor.setDecorations(decoration, band ? [] : bands[i]));
+    editor.setDecorations(this.partialDimDecoration, []);
+    editor.setDecorations(this.bandDecoration, band ? lineRanges : []);
+    editor.setDecorations(this.partialBandDecoration, []);
+    // Not a cursor spotlight: keep symbol loads from repainting it as one
+    this.decorated.delete(editor);
+    this.reportSpotlight(editor, lineRanges);
+  }
+
+  /** Where pinned line spans come from; they are read on every update. */
+  setPinSource(source: (document: vscode.TextDocument) => LineSpan[]): void {
+    this.pinSource = source;
+  }
+
+  /**
+   * Forget editors that are no longer visible; their decorations went with them,
+   * and a reopened editor is a new object.
+   */
+  retainEditors(visible: readonly vscode.TextEditor[]): void {
+    const keep = new Set(visible);
+    for (const editor of [...this.decorated]) {
+      if (!keep.has(editor)) {
+        this.decorated.delete(editor);
+      }
+    }
+  }
+
+  /**
+   * Widen the spotlight by one line on each side.
+   * Returns false if the spotlight is already at its maximum size.
+   */
+  growSpotlight(): boolean {
+    if (this.spotlightRadius() >= MAX_SPOTLIGHT_RADIUS) { return false; }
+    this.radiusAdjustment++;
+    return true;
+  }
+
+  /**
+   * Narrow the spotlight by one line on each side.
+   * Returns false if the spotlight is already at its scope's minimum.
+   */
+  shrinkSpotlight(): boolean {
+    if (this.spotlightRadius() <= 0) { return false; }
+    this.radiusAdjustment--;
+    return true;
+  }
+
+  /** Drop any grow/shrink adjustments (e.g. at the start of a new session). */
+  resetSpotlightSize(): void {
+    this.radiusAdjustment = 0;
+  }
+
+  /** Drop cached symbols so the next session queries providers afresh. */
+  clearSymbolCache(): void {
+    this.symbolSpotlight.clear();
   }
 
   /** Remove all dimming decorations from the given editor. */
   clearDecorations(editor: vscode.TextEditor): void {
-    editor.setDecorations(this.dimDecoration, []);
+    for (const decoration of this.dimDecorations) {
+      editor.setDecorations(decoration, []);
+    }
+    editor.setDecorations(this.partialDimDecoration, []);
+    editor.setDecorations(this.bandDecoration, []);
+    editor.setDecorations(this.partialBandDecoration, []);
+    this.decorated.delete(editor);
+    this.painted.delete(editor);
+    this.reportSpotlight(editor, []);
   }
 
-  /** Recreate the decoration type with a new opacity (e.g. after config change). */
-  recreate(opacity: number): void {
-    this.dimDecoration.dispose();
-    this.dimDecoration = vscode.window.createTextEditorDecorationType({
-      opacity: String(opacity),
+  /**
+   * Switch to the given config, recreating decoration types only if a
+   * decoration-relevant value differs from what is applied now
+   * (e.g. when moving to an editor with language-specific settings).
+   * Returns true if anything changed.
+   */
+  configure(config: FocusModeConfig): boolean {
+    const bandCount = config.dimStyle !== 'band' && config.fade === 'gradient' ? config.fadeBands : 1;
+    const unchanged = this.dimDecorations.length === bandCount
+      && this.appliedOpacity === config.opacity
+      && this.dimStyle === config.dimStyle
+      && this.highContrast === DecorationManager.isHighContrast(vscode.window.activeColorTheme.kind)
+      && this.fadeFalloff === config.fadeFalloff
+      && this.scope === config.scope
+      && this.contextLines === config.contextLines;
+    if (unchanged) { return false; }
+
+    this.recreate(config);
+    return true;
+  }
+
+  /**
+   * Recreate the decoration types from the current config (e.g. after config change).
+   * Disposing the old types removes their decorations from every editor.
+   */
+  recreate(config: FocusModeConfig): void {
+    this.disposeDecorationTypes();
+    this.createDecorationTypes(config);
+  }
+
+  dispose(): void {
+    this.disposeDecorationTypes();
+    this.symbolSpotlight.clear();
+    this.decorated.clear();
+    this.spotlightEmitter.dispose();
+  }
+
+  private createDecorationTypes(config: FocusModeConfig): void {
+    const highContrast = DecorationManager.isHighContrast(vscode.window.activeColorTheme.kind);
+    const styles = DecorationManager.computeDimStyles(
+      config.dimStyle,
+      config.opacity,
+      config.fade === 'gradient' ? config.fadeBands : 1,
+      highContrast
+    );
+    this.dimDecorations = styles.bands.map((options) => vscode.window.createTextEditorDecorationType(options));
+    this.partialDimDecoration = vscode.window.createTextEditorDecorationType(styles.partial);
+    const spotlightBackground = new vscode.ThemeColor('focusMode.spotlightBackground');
+    this.bandDecoration = vscode.window.createTextEditorDecorationType({
+      backgroundColor: spotlightBackground,
       isWholeLine: true,
     });
+    this.partialBandDecoration = vscode.window.createTextEditorDecorationType({
+      backgroundColor: spotlightBackground,
+    });
+    this.fadeFalloff = config.fadeFalloff;
+    this.appliedOpacity = config.opacity;
+    this.dimStyle = config.dimStyle;
+    this.highContrast = highContrast;
+    this.scope = config.scope;
+    this.contextLines = config.contextLines;
+    this.generation++;
   }
 
-  dispose(): void {
-    this.dimDecoration.dispose();
+  private disposeDecorationTypes(): void {
+    for (const decoration of this.dimDecorations) {
+      decoration.dispose();
+    }
+    this.partialDimDecoration.dispose();
+    this.bandDecoration.dispose();
+    this.partialBandDecoration.dispose();
+  }
+
+  /** Fire a spotlight change event unless the ranges match the last report. */
+  private reportSpotlight(editor: vscode.TextEditor, ranges: vscode.Range[]): void {
+    const key = ranges.map((r) => `${r.start.line}:${r.start.character}-${r.end.line}:${r.end.character}`).join(',');
+    if (this.lastSpotlight.get(editor) === key) { return; }
+    // Nothing was reported for an undecorated editor, so clearing it isn't a change
+    if (key === '' && !this.lastSpotlight.has(editor)) { return; }
+
+    if (key === '') {
+      this.lastSpotlight.delete(editor);
+    } else {
+      this.lastSpotlight.set(editor, key);
+    }
+    this.spotlightEmitter.fire({ editor, ranges });
+  }
+
+  /** Lines lit on each side of the scope's base range. */
+  private spotlightRadius(): number {
+    const base = this.scope === 'context' ? this.contextLines : 0;
+    return Math.max(0, Math.min(MAX_SPOTLIGHT_RADIUS, base + this.radiusAdjustment));
   }
 
   // ── Pure helpers (static for testability) ──────────────────────────
 
   /**
-   * Extract unique, sorted cursor line numbers from an editor.
+   * Group sorted, unique line numbers into contiguous inclusive spans.
+   */
+  static toLineSpans(lines: number[]): LineSpan[] {
+    const spans: LineSpan[] = [];
+    for (const line of lines) {
+      const last = spans[spans.length - 1];
+      if (last && line === last.end + 1) {
+        last.end = line;
+      } else {
+        spans.push({ start: line, end: line });
+      }
+    }
+    return spans;
+  }
+
+  /**
+   * Lines to decorate, given the visible lines and the window painted last time.
+   * Short documents are painted whole. In long ones the previous window is
+   * kept while the viewport stays well inside it, so scrolling a little
+   * repaints nothing; otherwise a new window extends VIEWPORT_MARGIN_LINES
+   * beyond the viewport on each side.
+   */
+  static paintWindow(visible: LineSpan, painted: LineSpan | undefined, totalLines: number): LineSpan {
+    const last = totalLines - 1;
+    if (totalLines <= FULL_PAINT_LINES) {
+      return { start: 0, end: last };
+    }
+
+    const guard = VIEWPORT_MARGIN_LINES / 4;
+    if (
+      painted &&
+      (painted.start === 0 || visible.start - painted.start >= guard) &&
+      (painted.end >= last || painted.end - visible.end >= guard)
+    ) {
+      return { start: painted.start, end: Math.min(painted.end, last) };
+    }
+    return {
+      start: Math.max(0, visible.start - VIEWPORT_MARGIN_LINES),
+      end: Math.min(last, visible.end + VIEWPORT_MARGIN_LINES),
+    };
+  }
+
+  /** First to last visible line of an editor, or the cursor line before it has been laid out. */
+  static visibleSpan(editor: vscode.TextEditor): LineSpan {
+    const ranges = editor.visibleRanges;
+    if (ranges.length === 0) {
+      const line = editor.selection.active.line;
+      return { start: line, end: line };
+    }
+    return { start: ranges[0].start.line, end: ranges[ranges.length - 1].end.line };
+  }
+
+  /**
+   * Line spans covered by the given selections, sorted and merged.
+   * A selection ending at the start of a line (e.g. whole lines selected
+   * with Shift+Down) does not include that line.
    */
-  static getCursorLines(editor: vscode.TextEditor): number[] {
-    const lines = new Set<number>();
+  static getSelectionSpans(selections: readonly vscode.Selection[]): LineSpan[] {
+    return DecorationManager.mergeSpans(selections.map((sel) => {
+      const endsAtLineStart = sel.end.character === 0 && sel.end.line > sel.start.line;
+      return { start: sel.start.line, end: endsAtLineStart ? sel.end.line - 1 : sel.end.line };
+    }));
+  }
+
+  /**
+   * Sort line spans and merge the ones that overlap or touch.
+   */
+  static mergeSpans(spans: readonly LineSpan[]): LineSpan[] {
+    const sorted = [...spans].sort((a, b) => a.start - b.start);
+    const merged: LineSpan[] = [];
+    for (const span of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end + 1) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ start: span.start, end: span.end });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Find the sentence under each cursor, searching within the cursor's
+   * paragraph (blank-line bounded). Cursors outside any sentence are skipped.
+   * The paragraph is cut at the edges of `window` (the lines being painted);
+   * for a cursor outside it, at the cursor's own line.
+   */
+  static getSentenceRanges(
+    editor: vscode.TextEditor,
+    window: LineSpan = { start: 0, end: editor.document.lineCount - 1 }
+  ): vscode.Range[] {
+    const document = editor.document;
+    const ranges: vscode.Range[] = [];
+
     for (const sel of editor.selections) {
-      lines.add(sel.active.line);
+      const cursor = sel.active;
+      if (document.lineAt(cursor.line).isEmptyOrWhitespace) { continue; }
+
+      const inWindow = cursor.line >= window.start && cursor.line <= window.end;
+      const top = inWindow ? window.start : cursor.line;
+      const bottom = inWindow ? window.end : cursor.line;
+      let first = cursor.line;
+      let last = cursor.line;
+      while (first > top && !document.lineAt(first - 1).isEmptyOrWhitespace) { first--; }
+      while (last < bottom && !document.lineAt(last + 1).isEmptyOrWhitespace) { last++; }
+
+      const paragraph = new vscode.Range(first, 0, last, document.lineAt(last).text.length);
+      const base = document.offsetAt(paragraph.start);
+      const span = sentenceAt(document.getText(paragraph), document.offsetAt(cursor) - base);
+      if (span) {
+        ranges.push(new vscode.Range(
+          document.positionAt(base + span.start),
+          document.positionAt(base + span.end)
+        ));
+      }
     }
-    return Array.from(lines).sort((a, b) => a - b);
+
+    return ranges;
   }
 
   /**
-   * Given sorted cursor lines and total line count, compute the ranges
-   * that should be dimmed (everything NOT a cursor line).
+   * Given lit character ranges, compute the character ranges on the same
+   * lines that should be dimmed (everything on those lines outside any lit range).
    *
-   * Returns an array of Range objects covering the gap lines.
+   * @param litRanges  Lit ranges, in any order, possibly overlapping.
+   * @param lineLength Length of a given line in characters.
+   */
+  static computePartialDimmedRanges(
+    litRanges: vscode.Range[],
+    lineLength: (line: number) => number
+  ): vscode.Range[] {
+    const litByLine = new Map<number, [number, number][]>();
+    for (const lit of litRanges) {
+      for (let line = lit.start.line; line <= lit.end.line; line++) {
+        const from = line === lit.start.line ? lit.start.character : 0;
+        const to = line === lit.end.line ? lit.end.character : lineLength(line);
+        const intervals = litByLine.get(line) ?? [];
+        intervals.push([from, to]);
+        litByLine.set(line, intervals);
+      }
+    }
+
+    const ranges: vscode.Range[] = [];
+    const lines = Array.from(litByLine.keys()).sort((a, b) => a - b);
+    for (const line of lines) {
+      const intervals = litByLine.get(line)!.sort((a, b) => a[0] - b[0]);
+      let nextStart = 0;
+      for (const [from, to] of intervals) {
+        if (from > nextStart) {
+          ranges.push(new vscode.Range(line, nextStart, line, from));
+        }
+        nextStart = Math.max(nextStart, to);
+      }
+      const length = lineLength(line);
+      if (nextStart < length) {
+        ranges.push(new vscode.Range(line, nextStart, line, length));
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Widen the cursor spans into the spotlight for the given scope.
    *
-   * @param cursorLines Sorted array of 0-based line numbers where cursors sit.
+   * - `line`, `context` and `sentence` start from the given spans themselves.
+   * - `paragraph` extends each span to the run of non-blank lines around it
+   *   (a cursor on a blank line lights only that line).
+   * - `symbol` extends each span to the innermost symbols enclosing its
+   *   first and last lines, if any.
+   *
+   * The base range is then extended by `radius` lines on each side.
+   * Works on spans throughout, so the cost doesn't grow with the size of a
+   * selection; paragraph scans stop at the edges of `window`, since lines
+   * outside it aren't painted.
+   *
+   * @param cursorSpans Sorted, merged 0-based line spans (see `getSelectionSpans`).
    * @param totalLines  Total number of lines in the document.
+   * @param scope       Spotlight scope from config.
+   * @param radius      Extra lines lit above and below the base range.
+   * @param isBlank     Whether a given line is empty or whitespace-only.
+   * @param enclosing   Line span of the symbol enclosing a line, if any (symbol scope only).
+   * @param window      Lines being painted; defaults to the whole document.
+   * @returns Sorted, merged line spans.
+   */
+  static expandSpotlight(
+    cursorSpans: readonly LineSpan[],
+    totalLines: number,
+    scope: FocusModeConfig['scope'],
+    radius: number,
+    isBlank: (line: number) => boolean,
+    enclosing: (line: number) => LineSpan | undefined = () => undefined,
+    window: LineSpan = { start: 0, end: totalLines - 1 }
+  ): LineSpan[] {
+    const inWindow = (line: number) => line >= window.start && line <= window.end;
+    const spans: LineSpan[] = [];
+
+    for (const cursor of cursorSpans) {
+      let start = cursor.start;
+      let end = cursor.end;
+
+      if (scope === 'paragraph') {
+        if (inWindow(start) && !isBlank(start)) {
+          while (start > window.start && !isBlank(start - 1)) { start--; }
+        }
+        if (inWindow(end) && !isBlank(end)) {
+          while (end < window.end && !isBlank(end + 1)) { end++; }
+        }
+      } else if (scope === 'symbol') {
+        for (const span of [enclosing(start), enclosing(end)]) {
+          if (span) {
+            start = Math.min(start, span.start);
+            end = Math.max(end, span.end);
+          }
+        }
+      }
+
+      spans.push({
+        start: Math.max(0, start - radius),
+        end: Math.min(totalLines - 1, end + radius),
+      });
+    }
+
+    return DecorationManager.mergeSpans(spans);
+  }
+
+  /**
+   * Given spotlight line spans and total line count, compute the ranges
+   * that should be dimmed (everything NOT in a spotlight span).
+   *
+   * Returns an array of Range objects covering the gap lines.
+   *
+   * @param litSpans   Inclusive 0-based line spans, in any order, possibly overlapping.
+   * @param totalLines Total number of lines in the document.
    */
-  static computeDimmedRanges(cursorLines: number[], totalLines: number): vscode.Range[] {
+  static computeDimmedRanges(litSpans: readonly LineSpan[], totalLines: number): vscode.Range[] {
     if (totalLines === 0) { return []; }
 
     const ranges: vscode.Range[] = [];
     let nextStart = 0;
 
-    for (const cursorLine of cursorLines) {
-      if (cursorLine > nextStart) {
-        // Gap before this cursor line
-        ranges.push(new vscode.Range(nextStart, 0, cursorLine - 1, Number.MAX_SAFE_INTEGER));
+    for (const span of DecorationManager.mergeSpans(litSpans)) {
+      if (span.start > nextStart) {
+        // Gap before this span
+        ranges.push(new vscode.Range(nextStart, 0, Math.min(span.start, totalLines) - 1, Number.MAX_SAFE_INTEGER));
       }
-      nextStart = cursorLine + 1;
+      nextStart = Math.max(nextStart, span.end + 1);
     }
 
-    // Gap after the last cursor line
+    // Gap after the last span
     if (nextStart < totalLines) {
       ranges.push(new vscode.Range(nextStart, 0, totalLines - 1, Number.MAX_SAFE_INTEGER));
     }
 
     return ranges;
   }
+
+  /** Whether a theme kind is one of the high-contrast kinds. */
+  static isHighContrast(kind: vscode.ColorThemeKind): boolean {
+    return kind === vscode.ColorThemeKind.HighContrast || kind === vscode.ColorThemeKind.HighContrastLight;
+  }
+
+  /**
+   * Decoration options for dimmed text in each style:
+   *
+   * - `opacity`: text fades to `opacity`.
+   * - `desaturate`: text loses its syntax colors (drawn in the theme's
+   *   `editor.foreground`) and fades to `opacity`.
+   * - `color`: text is drawn in the `focusMode.dimmedForeground` theme color
+   *   at full opacity; in gradient fade, nearer bands still fade less.
+   * - `band`: text is left alone (the spotlight gets a background instead).
+   *
+   * On high-contrast themes opacity never goes below HIGH_CONTRAST_MIN_OPACITY.
+   *
+   * @param bands Number of fade bands (1 = flat dimming).
+   */
+  static computeDimStyles(
+    style: FocusModeConfig['dimStyle'],
+    opacity: number,
+    bands: number,
+    highContrast: boolean
+  ): DimStyles {
+    if (style === 'band') {
+      return { bands: [{ isWholeLine: true }], partial: {} };
+    }
+
+    const floor = highContrast ? Math.max(opacity, HIGH_CONTRAST_MIN_OPACITY) : opacity;
+    // The recolored style already dims; flat dimming adds no fade on top
+    const opacities = style === 'color' && bands === 1 ? [1] : DecorationManager.computeBandOpacities(floor, bands);
+    const color = style === 'color' ? new vscode.ThemeColor('focusMode.dimmedForeground')
+      : style === 'desaturate' ? new vscode.ThemeColor('editor.foreground')
+      : undefined;
+    const render = (value: number): vscode.DecorationRenderOptions =>
+      color ? { opacity: String(value), color } : { opacity: String(value) };
+
+    return {
+      bands: opacities.map((value) => ({ ...render(value), isWholeLine: true })),
+      // Same-line remainder sits right next to the spotlight: use the nearest band
+      partial: render(opacities[0]),
+    };
+  }
+
+  /**
+   * Opacity for each fade band, nearest band first. Bands step evenly from
+   * full brightness down to `opacity`, which the last band always uses.
+   *
+   * @param opacity Configured opacity for the farthest lines.
+   * @param bands   Number of bands (1 = flat dimming).
+   */
+  static computeBandOpacities(opacity: number, bands: number): number[] {
+    const opacities: number[] = [];
+    for (let i = 1; i <= bands; i++) {
+      opacities.push(Math.round((1 - (1 - opacity) * (i / bands)) * 1000) / 1000);
+    }
+    return opacities;
+  }
+
+  /**
+   * Split dimmed ranges into fade bands by distance from the spotlight.
+   *
+   * A line directly next to the spotlight has distance 1. Band `i` holds
+   * lines at distance `i * falloff + 1` through `(i + 1) * falloff`; the
+   * last band also takes everything farther away. With a single band this
+   * returns the dimmed ranges unchanged.
+   *
+   * Only lines inside `window` are returned, so the work done depends on the
+   * window's size, not the document's.
+   *
+   * @param dimmedRanges Output of `computeDimmedRanges` (sorted, whole lines).
+   * @param totalLines   Total number of lines in the document.
+   * @param bands        Number of bands.
+   * @param falloff      Lines per band.
+   * @param window       Lines to produce ranges for (defaults to the whole document).
+   */
+  static computeFadeBands(
+    dimmedRanges: vscode.Range[],
+    totalLines: number,
+    bands: number,
+    falloff: number,
+    window: LineSpan = { start: 0, end: totalLines - 1 }
+  ): vscode.Range[][] {
+    const result: vscode.Range[][] = Array.from({ length: bands }, () => []);
+    if (bands === 1) {
+      result[0] = DecorationManager.clipRanges(dimmedRanges, window);
+      return result;
+    }
+
+    for (const range of dimmedRanges) {
+      const first = range.start.line;
+      const last = range.end.line;
+      // A gap touching the document edge has no spotlight on that side
+      const litAbove = first > 0;
+      const litBelow = last < totalLines - 1;
+      // Distances are measured from the whole gap, but only the window is walked
+      const from = Math.max(first, window.start);
+      const to = Math.min(last, window.end);
+      if (from > to) { continue; }
+
+      let runStart = from;
+      let runBand = -1;
+      for (let line = from; line <= to + 1; line++) {
+        let band = -1;
+        if (line <= to) {
+          const distance = Math.min(
+            litAbove ? line - first + 1 : Infinity,
+            litBelow ? last - line + 1 : Infinity
+          );
+          band = Math.min(bands - 1, Math.floor((distance - 1) / falloff));
+        }
+        if (band !== runBand) {
+          if (runBand >= 0) {
+            result[runBand].push(new vscode.Range(runStart, 0, line - 1, Number.MAX_SAFE_INTEGER));
+          }
+          runStart = line;
+          runBand = band;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /** Trim whole-line ranges to `window`, dropping the ones outside it. */
+  static clipRanges(ranges: vscode.Range[], window: LineSpan): vscode.Range[] {
+    const clipped: vscode.Range[] = [];
+    for (const range of ranges) {
+      if (range.end.line < window.start || range.start.line > window.end) { continue; }
+      if (range.start.line >= window.start && range.end.line <= window.end) {
+        clipped.push(range);
+      } else {
+        clipped.push(new vscode.Range(
+          Math.max(range.start.line, window.start), 0,
+          Math.min(range.end.line, window.end), Number.MAX_SAFE_INTEGER
+        ));
+      }
+    }
+    return clipped;
+  }
 }
@@ -0,0 +1,342 @@
+import * as vscode from 'vscode';
+import { LineSpan } from './symbolSpotlight';
+
+/** One changed region of a diff: lines replaced on the original side by lines on the modified side. */
+export interface DiffHunk {
+  /** First original line (0-based); where lines were inserted when `originalCount` is 0. */
+  originalStart: number;
+  originalCount: number;
+  /** First modified line (0-based); where lines were deleted when `modifiedCount` is 0. */
+  modifiedStart: number;
+  modifiedCount: number;
+}
+
+export type DiffSide = 'original' | 'modified';
+
+interface ReviewState {
+  /** Document versions the hunks were computed from. */
+  versions: string;
+  hunks: DiffHunk[];
+  /** Index of the lit hunk; -1 until it is first picked from the cursor. */
+  current: number;
+  /** Indices of hunks stepped past with Next Hunk. */
+  reviewed: Set<number>;
+}
+
+interface DiffEditor {
+  key: string;
+  side: DiffSide;
+  original: vscode.TextDocument;
+  modified: vscode.TextDocument;
+}
+
+/** Beyond this many inserted plus deleted lines, the changed middle of the files is one hunk. */
+const MAX_DIFF_EDITS = 2000;
+
+/**
+ * Diff review: in a diff editor, the spotlight is the current hunk, on both
+ * sides, instead of the lines around the cursor. Next/Previous Hunk move it
+ * (and the cursor), moving the cursor into another hunk picks that one, and
+ * hunks stepped past count as reviewed.
+ *
+ * Hunks come from a line diff of the two documents, recomputed when either
+ * changes. In the inline layout only the modified side is an editor; deleted
+ * lines are shown by VS Code itself and are never dimmed.
+ *
+ * Review progress is kept per diff for the session.
+ */
+export class DiffReview {
+  private states = new Map<string, ReviewState>();
+  private progressDecoration: vscode.TextEditorDecorationType;
+  /** Editor currently showing the progress label. */
+  private labelled: vscode.TextEditor | undefined;
+
+  constructor() {
+    this.progressDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('descriptionForeground'),
+        margin: '0 0 0 3em',
+      },
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+    });
+  }
+
+  /** Whether the editor shows one side of a diff. */
+  isDiff(editor: vscode.TextEditor): boolean {
+    return this.find(editor) !== undefined;
+  }
+
+  /**
+   * Lines to keep lit in a diff editor: the current hunk on the editor's
+   * side. Undefined for editors outside a diff and for diffs without changes,
+   * which keep the usual spotlight.
+   * @param showProgress Label the hunk with its position and the reviewed count.
+   */
+  spotlight(editor: vscode.TextEditor, showProgress: boolean): LineSpan[] | undefined {
+    const diff = this.find(editor);
+    const state = diff && this.state(diff);
+    if (!diff || !state || state.hunks.length === 0) {
+      if (editor === this.labelled) { this.clearLabel(); }
+      return undefined;
+    }
+
+    if (state.current < 0) {
+      state.current = DiffReview.hunkFrom(state.hunks, diff.side, editor.selection.active.line);
+    }
+    const hunk = state.hunks[state.current];
+    const span = DiffReview.hunkSpan(hunk, diff.side, editor.document.lineCount);
+
+    // One label, on the modified side of the diff being worked in
+    const active = vscode.window.activeTextEditor;
+    if (showProgress && diff.side === 'modified' && active && this.find(active)?.key === diff.key) {
+      this.label(editor, span.start, DiffReview.formatProgress(state.current, state.hunks.length, state.reviewed.size));
+    } else if (editor === this.labelled) {
+      this.clearLabel();
+    }
+    return [span];
+  }
+
+  /**
+   * Move the current hunk of the editor's diff by `delta`, wrapping around
+   * at either end. Moving forward marks the hunk left behind as reviewed.
+   * Returns the new hunk's lines on the editor's side, or undefined when
+   * the editor isn't in a diff or the diff has no changes.
+   */
+  step(editor: vscode.TextEditor, delta: 1 | -1): LineSpan | undefined {
+    const diff = this.find(editor);
+    const state = diff && this.state(diff);
+    if (!diff || !state || state.hunks.length === 0) { return undefined; }
+
+    const count = state.hunks.length;
+    if (state.current < 0) {
+      // Nothing lit yet: start from the hunk at or after the cursor
+      const line = editor.selection.active.line;
+      const from = DiffReview.hunkFrom(state.hunks, diff.side, line);
+      const span = DiffReview.hunkSpan(state.hunks[from], diff.side, editor.document.lineCount);
+      state.current = delta > 0 || span.start <= line ? from : (from - 1 + count) % count;
+    } else {
+      if (delta > 0) { state.reviewed.add(state.current); }
+      state.current = (state.current + delta + count) % count;
+    }
+    return DiffReview.hunkSpan(state.hunks[state.current], diff.side, editor.document.lineCount);
+  }
+
+  /**
+   * Make the hunk under the editor's cursor the current one.
+   * Returns true if the current hunk changed.
+   */
+  follow(editor: vscode.TextEditor): boolean {
+    const diff = this.find(editor);
+    const state = diff && this.state(diff);
+    if (!diff || !state) { return false; }
+
+    const index = DiffReview.hunkAt(state.hunks, diff.side, editor.selection.active.line, editor.document.lineCount);
+    if (index < 0 || index === state.current) { return false; }
+    state.current = index;
+    return true;
+  }
+
+  /** Forget review progress and remove the label (end of a session). */
+  reset(): void {
+    this.clearLabel();
+    this.states.clear();
+  }
+
+  dispose(): void {
+    this.reset();
+    this.progressDecoration.dispose();
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * Line diff of two texts as hunks, in order. Lines match only when equal;
+   * hunks are separated by at least one unchanged line.
+   */
+  static computeHunks(original: readonly string[], modified: readonly string[]): DiffHunk[] {
+    // A common prefix and suffix never change; diff only what's between
+    const shorter = Math.min(original.length, modified.length);
+    let prefix = 0;
+    while (prefix < shorter && original[prefix] === modified[prefix]) { prefix++; }
+    let suffix = 0;
+    while (
+      suffix < shorter - prefix
+      && original[original.length - 1 - suffix] === modified[modified.length - 1 - suffix]
+    ) { suffix++; }
+
+    const a = original.slice(prefix, original.length - suffix);
+    const b = modified.slice(prefix, modified.length - suffix);
+    const matches = DiffReview.matchLines(a, b) ?? [];
+
+    const hunks: DiffHunk[] = [];
+    let i = 0;
+    let j = 0;
+    for (const [x, y] of [...matches, [a.length, b.length]]) {
+      if (x > i || y > j) {
+        hunks.push({ originalStart: prefix + i, originalCount: x - i, modifiedStart: prefix + j, modifiedCount: y - j });
+      }
+      i = x + 1;
+      j = y + 1;
+    }
+    return hunks;
+  }
+
+  /**
+   * A hunk's lines on one side. A side with no lines (a pure insertion or
+   * deletion) gets the line just after the gap, or the last line at the end.
+   */
+  static hunkSpan(hunk: DiffHunk, side: DiffSide, totalLines: number): LineSpan {
+    const start = side === 'original' ? hunk.originalStart : hunk.modifiedStart;
+    const count = side === 'original' ? hunk.originalCount : hunk.modifiedCount;
+    if (count > 0) { return { start, end: start + count - 1 }; }
+    const line = Math.max(0, Math.min(start, totalLines - 1));
+    return { start: line, end: line };
+  }
+
+  /** Index of the hunk covering the line on one side, or -1. */
+  static hunkAt(hunks: readonly DiffHunk[], side: DiffSide, line: number, totalLines: number): number {
+    return hunks.findIndex((hunk) => {
+      const span = DiffReview.hunkSpan(hunk, side, totalLines);
+      return span.start <= line && line <= span.end;
+    });
+  }
+
+  /** Index of the first hunk ending at or after the line on one side, else the last hunk. */
+  static hunkFrom(hunks: readonly DiffHunk[], side: DiffSide, line: number): number {
+    const index = hunks.findIndex((hunk) => {
+      const start = side === 'original' ? hunk.originalStart : hunk.modifiedStart;
+      const count = side === 'original' ? hunk.originalCount : hunk.modifiedCount;
+      return start + Math.max(count, 1) - 1 >= line;
+    });
+    return index < 0 ? hunks.length - 1 : index;
+  }
+
+  /** Progress label, e.g. `Hunk 3 of 12 · 2 reviewed`. */
+  static formatProgress(current: number, total: number, reviewed: number): string {
+    const done = reviewed >= total ? 'all reviewed' : `${reviewed} reviewed`;
+    return `Hunk ${current + 1} of ${total} · ${done}`;
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  /**
+   * Matching line pairs of a shortest edit script (Myers), in order.
+   * Undefined when more than MAX_DIFF_EDITS edits would be needed.
+   */
+  private static matchLines(a: readonly string[], b: readonly string[]): Array<[number, number]> | undefined {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_DIFF_EDITS);
+    const offset = max + 1;
+    // v[offset + k]: furthest x reached on diagonal k = x - y
+    const v = new Int32Array(2 * max + 3);
+    // trace[d][k + d + 1]: v before step d, for k in -d-1..d+1
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= max; d++) {
+      trace.push(v.slice(offset - d - 1, offset + d + 2));
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+        v[offset + k] = x;
+        if (x >= n && y >= m) {
+          return DiffReview.backtrack(trace, n, m);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /** Walk the Myers trace back from the end, collecting the matched lines of each snake. */
+  private static backtrack(trace: Int32Array[], n: number, m: number): Array<[number, number]> {
+    const matches: Array<[number, number]> = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const before = trace[d];
+      const at = (k: number) => before[k + d + 1];
+      const k = x - y;
+      const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+      const prevK = down ? k + 1 : k - 1;
+      const prevX = at(prevK);
+      const snakeX = down ? prevX : prevX + 1;
+      while (x > snakeX) {
+        x--;
+        y--;
+        matches.push([x, y]);
+      }
+      x = prevX;
+      y = prevX - prevK;
+    }
+    return matches.reverse();
+  }
+
+  /** The diff an editor belongs to, from the active tab of each editor group. */
+  private find(editor: vscode.TextEditor): DiffEditor | undefined {
+    const uri = editor.document.uri.toString();
+    for (const group of vscode.window.tabGroups.all) {
+      const input = group.activeTab?.input;
+      if (!(input instanceof vscode.TabInputTextDiff)) { continue; }
+      // The same file may also be open on its own in another group
+      if (editor.viewColumn !== undefined && editor.viewColumn !== group.viewColumn) { continue; }
+
+      const original = input.original.toString();
+      const modified = input.modified.toString();
+      if (uri !== original && uri !== modified) { continue; }
+      const documents = vscode.workspace.textDocuments;
+      const originalDoc = documents.find((doc) => doc.uri.toString() === original);
+      const modifiedDoc = documents.find((doc) => doc.uri.toString() === modified);
+      if (!originalDoc || !modifiedDoc) { return undefined; }
+      return {
+        key: `${original}|${modified}`,
+        side: uri === modified ? 'modified' : 'original',
+        original: originalDoc,
+        modified: modifiedDoc,
+      };
+    }
+    return undefined;
+  }
+
+  /** Review state of a diff, with hunks recomputed if either side changed. */
+  private state(diff: DiffEditor): ReviewState {
+    const versions = `${diff.original.version}:${diff.modified.version}`;
+    let state = this.states.get(diff.key);
+    if (state?.versions === versions) { return state; }
+
+    const hunks = DiffReview.computeHunks(
+      diff.original.getText().split(/\r?\n/),
+      diff.modified.getText().split(/\r?\n/)
+    );
+    if (!state) {
+      state = { versions, hunks, current: -1, reviewed: new Set() };
+      this.states.set(diff.key, state);
+      return state;
+    }
+    // Edited during review: hunk indices mostly still line up, so keep progress within range
+    state.versions = versions;
+    state.hunks = hunks;
+    state.current = Math.min(state.current, hunks.length - 1);
+    state.reviewed = new Set([...state.reviewed].filter((index) => index < hunks.length));
+    return state;
+  }
+
+  private label(editor: vscode.TextEditor, line: number, text: string): void {
+    if (this.labelled && this.labelled !== editor) {
+      this.labelled.setDecorations(this.progressDecoration, []);
+    }
+    this.labelled = editor;
+    const end = editor.document.lineAt(line).range.end;
+    editor.setDecorations(this.progressDecoration, [{
+      range: new vscode.Range(end, end),
+      renderOptions: { after: { contentText: text } },
+    }]);
+  }
+
+  private clearLabel(): void {
+    this.labelled?.setDecorations(this.progressDecoration, []);
+    this.labelled = undefined;
+  }
+}
@@ -1,22 +1,109 @@
 import * as vscode from 'vscode';
+import { createApi, FocusModeApi } from './api';
+import { AutoFocus } from './autoFocus';
+import { parseEnterOptions, SessionConfig } from './config';
 import { FocusMode } from './focusMode';
+import { FocusSession } from './focusSession';
+import { NarrowRegion } from './narrowRegion';
+import { TypingTrigger } from './typingTrigger';
+import { FocusUriHandler } from './uriHandler';
 
 let focusMode: FocusMode | undefined;
+let focusSession: FocusSession | undefined;
+let autoFocus: AutoFocus | undefined;
+let typingTrigger: TypingTrigger | undefined;
+let narrowRegion: NarrowRegion | undefined;
 
-export async function activate(context: vscode.ExtensionContext): Promise<void> {
+export async function activate(context: vscode.ExtensionContext): Promise<FocusModeApi> {
   focusMode = new FocusMode(context);
 
   // Run crash recovery (restores settings if VS Code was killed while active)
   await focusMode.crashRecovery();
 
+  // Narrow-to-region: an alternate way in, through an isolated focus buffer
+  narrowRegion = new NarrowRegion(focusMode);
+
+  // Resume a timed session that was running before a window reload
+  focusSession = new FocusSession(context, focusMode);
+  await focusSession.resume();
+
   // Register commands
   context.subscriptions.push(
-    vscode.commands.registerCommand('focusMode.toggle', () => focusMode?.toggle()),
-    vscode.commands.registerCommand('focusMode.exit', () => focusMode?.exit())
+    vscode.commands.registerCommand('focusMode.toggle', (arg?: unknown) =>
+      focusMode?.toggle(parseEnterOptions(arg))
+    ),
+    vscode.commands.registerCommand('focusMode.enter', (arg?: unknown) =>
+      focusMode?.enterWith(parseEnterOptions(arg))
+    ),
+    vscode.commands.registerCommand('focusMode.exit', () => focusMode?.exit()),
+    vscode.commands.registerCommand('focusMode.narrow', () => narrowRegion?.narrow()),
+    vscode.commands.registerCommand('focusMode.widen', () => narrowRegion?.widen()),
+    vscode.commands.registerCommand('focusMode.enterPreset', (arg?: string | { preset?: string }) =>
+      focusMode?.enterPreset(typeof arg === 'string' ? arg : arg?.preset)
+    ),
+    vscode.commands.registerCommand('focusMode.growSpotlight', () => focusMode?.growSpotlight()),
+    vscode.commands.registerCommand('focusMode.shrinkSpotlight', () => focusMode?.shrinkSpotlight()),
+    vscode.commands.registerCommand('focusMode.pinSelection', () => focusMode?.pins.pinSelection()),
+    vscode.commands.registerCommand('focusMode.unpinAll', () => focusMode?.pins.unpinAll()),
+    vscode.commands.registerCommand('focusMode.listPins', () => focusMode?.pins.listPins()),
+    vscode.commands.registerCommand('focusMode.nextHunk', () => focusMode?.nextHunk()),
+    vscode.commands.registerCommand('focusMode.previousHunk', () => focusMode?.previousHunk()),
+    vscode.commands.registerCommand('focusMode.startSession', (arg?: number | Partial<SessionConfig>) =>
+      focusSession?.start(typeof arg === 'number' ? { minutes: arg } : arg)
+    ),
+    vscode.commands.registerCommand('focusMode.stopSession', () => focusSession?.stop()),
+    vscode.commands.registerCommand('focusMode.showStats', () => focusMode?.showStats()),
+    vscode.commands.registerCommand('focusMode.snoozeAutoRules', () => autoFocus?.snooze()),
+    vscode.commands.registerCommand('focusMode.resumeAutoRules', () => autoFocus?.resume())
+  );
+
+  // vscode://prabinpebam.vscode-focus-mode/enter?file=...&line=...&preset=...
+  context.subscriptions.push(vscode.window.registerUriHandler(new FocusUriHandler(focusMode)));
+
+  // Auto rules: always listening, so focus mode can turn itself on and off
+  autoFocus = new AutoFocus(context, focusMode);
+  context.subscriptions.push(
+    vscode.window.onDidChangeActiveTextEditor(() => autoFocus?.schedule()),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('focusMode.autoRules')) {
+        autoFocus?.schedule();
+      }
+    })
+  );
+  autoFocus.schedule();
+
+  // Typing trigger: soft focus after sustained typing (opt-in)
+  typingTrigger = new TypingTrigger(focusMode);
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument((e) => typingTrigger?.onEdit(e)),
+    vscode.window.onDidChangeTextEditorSelection((e) => typingTrigger?.onSelection(e)),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('focusMode')) {
+        typingTrigger?.configure();
+      }
+    })
   );
+
+  return createApi(focusMode);
 }
 
 export async function deactivate(): Promise<void> {
+  if (autoFocus) {
+    autoFocus.dispose();
+    autoFocus = undefined;
+  }
+  if (typingTrigger) {
+    typingTrigger.dispose();
+    typingTrigger = undefined;
+  }
+  if (narrowRegion) {
+    narrowRegion.dispose();
+    narrowRegion = undefined;
+  }
+  if (focusSession) {
+    focusSession.dispose();
+    focusSession = undefined;
+  }
   if (focusMode) {
     await focusMode.dispose();
     focusMode = undefined;
@@ -1,7 +1,36 @@
 import * as vscode from 'vscode';
-import { getConfig, FocusModeConfig } from './config';
-import { DecorationManager } from './decorationManager';
+import { ChromeWatchdog } from './chromeWatchdog';
+import { EnterOptions, FocusModeConfig, FocusModePreset, getConfig, getPresets } from './config';
+import { DecorationManager, SpotlightChangeEvent } from './decorationManager';
+import { DiffReview } from './diffReview';
+import { NotebookFocus } from './notebookFocus';
+import { PinnedRegions } from './pinnedRegions';
+import { SessionRecord, SessionTracker } from './sessionTracker';
+import { StatsHistory } from './statsHistory';
+import { StatsPanel } from './statsPanel';
+import { TypewriterScroller } from './typewriterScroller';
 import { UIManager } from './uiManager';
+import { WindowCoordinator } from './windowCoordinator';
+
+/**
+ * How much of focus mode is applied.
+ * - `full`: chrome hidden, layout changed, line numbers and typewriter applied.
+ * - `soft`: dimming only; nothing about the window or settings changes.
+ */
+export type FocusLevel = 'full' | 'soft';
+
+/** Lifecycle states reported through `onDidChangeState`. */
+export type FocusState = 'entering' | 'active' | 'exiting' | 'inactive';
+
+export interface FocusStateChangeEvent {
+  readonly state: FocusState;
+  /** Level of the session being entered, running or left. */
+  readonly level: FocusLevel;
+  readonly preset: string | undefined;
+}
+
+/** Sessions shorter than this are not recorded or summarized. */
+const MIN_RECORDED_SESSION_MS = 60_000;
 
 /**
  * Core Focus Mode state machine.
@@ -16,69 +45,171 @@ export class FocusMode {
   private isTransitioning = false;
   private decorationManager: DecorationManager;
   private uiManager: UIManager;
+  private typewriter: TypewriterScroller;
+  private coordinator: WindowCoordinator;
+  private watchdog = new ChromeWatchdog();
+  private tracker = new SessionTracker();
+  private notebook = new NotebookFocus();
+  private review = new DiffReview();
+  private history: StatsHistory;
+  /** Pinned regions; available whether or not focus mode is on. */
+  readonly pins: PinnedRegions;
   private disposables: vscode.Disposable[] = [];
   private selectionDebounceTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Retry of crash recovery while another window holds a lease; lives until dispose. */
+  private recoveryTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Preset and per-invocation overrides the session was entered with, re-applied on config change. */
+  private preset: string | undefined;
+  private overrides: FocusModePreset = {};
+  private level: FocusLevel = 'full';
+  /** Settings in effect for the running session (re-resolved per document). */
+  private config: FocusModeConfig | undefined;
+  private stateEmitter = new vscode.EventEmitter<FocusStateChangeEvent>();
+
+  /** Fires on every lifecycle transition: entering → active → exiting → inactive. */
+  readonly onDidChangeState = this.stateEmitter.event;
 
   constructor(private context: vscode.ExtensionContext) {
     const config = getConfig();
-    this.decorationManager = new DecorationManager(config.opacity);
+    this.decorationManager = new DecorationManager(config);
     this.uiManager = new UIManager(context.globalState);
+    this.typewriter = new TypewriterScroller(config);
+    // Workspace state outlives a reload of this window, so the lease id does too
+    const hasWorkspace = vscode.workspace.workspaceFile !== undefined || !!vscode.workspace.workspaceFolders?.length;
+    this.coordinator = new WindowCoordinator(context.globalState, hasWorkspace ? context.workspaceState : undefined);
+    this.history = new StatsHistory(context.globalStorageUri);
+    this.pins = new PinnedRegions(context);
+    this.decorationManager.setPinSource((document) => this.pins.get(document));
+    this.pins.onDidChange((uri) => {
+      if (!this.isActive) { return; }
+      for (const editor of vscode.window.visibleTextEditors) {
+        if (editor.document.uri.toString() === uri.toString()) {
+          this.decorate(editor);
+        }
+      }
+    });
   }
 
-  /** Toggle focus mode on or off. Guarded against re-entrant calls. */
-  async toggle(): Promise<void> {
+  /**
+   * Toggle focus mode on or off. Guarded against re-entrant calls.
+   * A soft session is upgraded to full focus rather than turned off.
+   * @param options Preset and overrides used when turning focus mode on.
+   */
+  async toggle(options?: EnterOptions): Promise<void> {
     if (this.isTransitioning) { return; }
-    if (this.isActive) {
+    if (this.isActive && this.level === 'full') {
       await this.exit();
     } else {
-      await this.enter();
+      await this.enter(options?.preset, 'full', options?.overrides);
     }
   }
 
-  /** Enter focus mode. */
-  async enter(): Promise<void> {
-    if (this.isActive || this.isTransitioning) { return; }
+  /**
+   * Enter focus mode.
+   * @param preset Optional `focusMode.presets` entry to apply over the settings.
+   * @param level  `soft` applies the dimming only, skipping every step that
+   *               changes the window layout or settings. Entering `full`
+   *               while a soft session runs upgrades it.
+   * @param overrides `FocusModeConfig` values for this session only.
+   */
+  async enter(preset?: string, level: FocusLevel = 'full', overrides: FocusModePreset = {}): Promise<void> {
+    if (this.isTransitioning) { return; }
+    if (this.isActive) {
+      if (this.level === 'full' || level === 'soft') { return; }
+      await this.exit();
+    }
 
+    // In a notebook, focus may be on the cell list rather than a cell editor
     const editor = vscode.window.activeTextEditor;
-    if (!editor) {
+    const notebook = vscode.window.activeNotebookEditor;
+    if (!editor && !notebook) {
       vscode.window.showWarningMessage('Focus Mode: No active editor to focus.');
       return;
     }
 
     this.isTransitioning = true;
+    let chromeHidden = false;
     try {
-      const config = getConfig();
+      this.preset = preset;
+      this.overrides = overrides;
+      this.level = level;
+      this.fireState('entering');
+      const full = level === 'full';
+      const config = getConfig(preset, editor?.document ?? notebook?.notebook.uri, overrides);
+      this.config = config;
+
+      // Recreate decoration in case config changed since construction
+      this.decorationManager.recreate(config);
+      this.decorationManager.resetSpotlightSize();
+      this.decorationManager.clearSymbolCache();
+
+      if (full) {
+        // 1. Enforce single editor group
+        if (config.singleEditorOnly) {
+          await this.uiManager.enforceSingleEditorGroup();
+        }
 
-      // Recreate decoration in case opacity changed since construction
-      this.decorationManager.recreate(config.opacity);
+        // 2. Hide UI chrome (with rollback on failure).
+        //    Shared settings are only snapshotted by the first window in focus mode.
+        const ownsSettings = await this.coordinator.acquire();
+        await this.uiManager.hideChrome(config, ownsSettings);
+        chromeHidden = true;
+        this.watchdog.configure(config);
 
-      // 1. Enforce single editor group
-      if (config.singleEditorOnly) {
-        await this.uiManager.enforceSingleEditorGroup();
-      }
+        // 3. Apply line numbers policy
+        if (editor) {
+          this.uiManager.applyLineNumbers(editor, config);
+        }
 
-      // 2. Hide UI chrome (with rollback on failure)
-      await this.uiManager.hideChrome(config);
+        // 3b. Collapse notebook outputs
+        await this.notebook.enter(config);
+      }
 
-      // 3. Apply line numbers policy
-      this.uiManager.applyLineNumbers(editor, config);
+      // 4. Apply dimming decorations to every visible editor
+      this.decorateVisibleEditors();
 
-      // 4. Apply dimming decorations
-      this.decorationManager.updateDecorations(editor);
+      // 4b. Typewriter scrolling: pad the top so early lines can be centered
+      this.typewriter.configure(config);
+      if (full && editor && this.typewriter.isEnabled) {
+        await this.uiManager.applyTypewriterPadding(this.typewriter.topPadding(editor));
+        this.typewriter.scroll(editor);
+      }
 
       // 5. Set context key
       await vscode.commands.executeCommand('setContext', 'focusMode.active', true);
 
-      // 6. Write crash-recovery marker
-      this.context.globalState.update('focusMode.wasActive', true);
+      // 6. Write crash-recovery marker (soft focus changes nothing to recover)
+      if (full) {
+        this.context.globalState.update('focusMode.wasActive', true);
+      }
 
       // 7. Register event listeners
-      this.registerListeners(config);
+      this.registerListeners();
+
+      // 8. Start collecting session statistics
+      if (full) {
+        this.tracker.start(preset);
+      }
 
       this.isActive = true;
+      this.fireState('active');
     } catch (err) {
-      // enter failed — UIManager already rolled back chrome in hideChrome's catch
+      // enter failed — hideChrome rolls itself back when it is the step that
+      // failed; anything applied after it is undone here
+      this.disposeListeners();
+      this.watchdog.stop();
+      for (const visible of vscode.window.visibleTextEditors) {
+        this.decorationManager.clearDecorations(visible);
+        this.uiManager.restoreLineNumbers(visible);
+      }
+      await this.notebook.exit().catch(() => undefined);
+      const last = await this.coordinator.release().catch(() => true);
+      if (chromeHidden) {
+        await this.uiManager.restoreChrome(last).catch(() => undefined);
+      }
+      this.context.globalState.update('focusMode.wasActive', false);
       await vscode.commands.executeCommand('setContext', 'focusMode.active', false);
+      this.fireState('inactive');
       vscode.window.showErrorMessage(`Focus Mode: Failed to enter — ${err}`);
     } finally {
       this.isTransitioning = false;
@@ -90,6 +221,8 @@ export class FocusMode {
     if (!this.isActive || this.isTransitioning) { return; }
 
     this.isTransitioning = true;
+    this.fireState('exiting');
+    let chromeRestored = false;
     try {
       // 1. Clear debounce timer
       if (this.selectionDebounceTimer) {
@@ -97,17 +230,26 @@ export class FocusMode {
         this.selectionDebounceTimer = undefined;
       }
 
-      // 2. Dispose event listeners
+      // 2. Dispose event listeners and stop guarding the layout
       this.disposeListeners();
+      this.watchdog.stop();
 
       // 3. Clear decorations on all visible editors
       for (const editor of vscode.window.visibleTextEditors) {
         this.decorationManager.clearDecorations(editor);
         this.uiManager.restoreLineNumbers(editor);
       }
-
-      // 4. Restore UI chrome
-      await this.uiManager.restoreChrome();
+      this.review.reset();
+
+      // 4. Restore UI chrome; shared settings only once no other window is focused.
+      //    The lease is held until then, so no other window can take over and
+      //    snapshot focus-mode values as the user's settings.
+      if (this.level === 'full') {
+        await this.notebook.exit();
+        await this.uiManager.restoreChrome(!this.coordinator.othersActive());
+        chromeRestored = true;
+        await this.coordinator.release();
+      }
 
       // 5. Clear context key
       await vscode.commands.executeCommand('setContext', 'focusMode.active', false);
@@ -116,47 +258,176 @@ export class FocusMode {
       this.context.globalState.update('focusMode.wasActive', false);
 
       this.isActive = false;
+      this.fireState('inactive');
+
+      // 7. Record the session and show its summary
+      const record = this.tracker.stop();
+      if (record) {
+        await this.recordSession(record);
+      }
     } catch (err) {
+      if (this.isActive && !chromeRestored) {
+        // Chrome and the lease are still in place: pick the session back up
+        await this.resumeAfterFailedExit().catch(() => undefined);
+        this.fireState('active');
+      } else if (this.isActive) {
+        // Chrome is back: finish leaving, so the state matches the window
+        this.isActive = false;
+        this.context.globalState.update('focusMode.wasActive', false);
+        await vscode.commands.executeCommand('setContext', 'focusMode.active', false);
+        this.tracker.stop();
+        this.fireState('inactive');
+      }
       vscode.window.showErrorMessage(`Focus Mode: Error during exit — ${err}`);
     } finally {
       this.isTransitioning = false;
     }
   }
 
+  /**
+   * Enter focus mode with a named preset, switching presets if already active.
+   * Without a name, the user picks one from a quick pick.
+   */
+  async enterPreset(name?: string): Promise<void> {
+    if (this.isTransitioning) { return; }
+
+    const presets = getPresets();
+    if (name === undefined) {
+      if (Object.keys(presets).length === 0) {
+        vscode.window.showInformationMessage('Focus Mode: No presets defined in "focusMode.presets".');
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        Object.entries(presets).map(([label, preset]) => ({
+          label,
+          description: Object.entries(preset).map(([key, value]) => `${key}: ${value}`).join(', '),
+        })),
+        { placeHolder: 'Select a focus preset' }
+      );
+      if (!picked) { return; }
+      name = picked.label;
+    } else if (!Object.prototype.hasOwnProperty.call(presets, name)) {
+      vscode.window.showWarningMessage(`Focus Mode: Unknown preset "${name}".`);
+      return;
+    }
+
+    if (this.isActive) {
+      await this.exit();
+    }
+    await this.enter(name);
+  }
+
+  /**
+   * Enter focus mode with the given preset and overrides, restarting the
+   * session if one is running so they take effect.
+   */
+  async enterWith(options: EnterOptions): Promise<void> {
+    if (this.isTransitioning) { return; }
+    if (this.isActive) {
+      await this.exit();
+    }
+    await this.enter(options.preset, 'full', options.overrides);
+  }
+
+  /** Widen the spotlight by one line on each side (active session only). */
+  growSpotlight(): void {
+    this.resizeSpotlight(() => this.decorationManager.growSpotlight());
+  }
+
+  /** Narrow the spotlight by one line on each side (active session only). */
+  shrinkSpotlight(): void {
+    this.resizeSpotlight(() => this.decorationManager.shrinkSpotlight());
+  }
+
+  /** Light the next hunk of the active diff editor, entering focus mode if needed. */
+  async nextHunk(): Promise<void> {
+    await this.stepHunk(1);
+  }
+
+  /** Light the previous hunk of the active diff editor, entering focus mode if needed. */
+  async previousHunk(): Promise<void> {
+    await this.stepHunk(-1);
+  }
+
+  /** Open the focus statistics webview. */
+  async showStats(): Promise<void> {
+    await StatsPanel.show(this.history);
+  }
+
   /** Get the current activation state. */
   get active(): boolean {
     return this.isActive;
   }
 
+  /** Level of the running session (meaningful only while active). */
+  get activeLevel(): FocusLevel {
+    return this.level;
+  }
+
+  /**
+   * Settings in effect: the running session's (with its preset), or
+   * what entering now would use for the active document.
+   */
+  get currentConfig(): FocusModeConfig {
+    if (this.isActive && this.config) { return this.config; }
+    return getConfig(undefined, vscode.window.activeTextEditor?.document);
+  }
+
+  /** Fires when the lit ranges of an editor change. */
+  get onDidChangeSpotlight(): vscode.Event<SpotlightChangeEvent> {
+    return this.decorationManager.onDidChangeSpotlight;
+  }
+
   /** Clean up all resources. If active, exit first. */
   async dispose(): Promise<void> {
     if (this.isActive) {
       await this.exit();
     }
+    if (this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+      this.recoveryTimer = undefined;
+    }
     this.decorationManager.dispose();
+    this.review.dispose();
+    this.notebook.dispose();
+    this.pins.dispose();
+    this.coordinator.dispose();
+    this.tracker.dispose();
+    this.watchdog.dispose();
+    this.stateEmitter.dispose();
   }
 
   /**
    * Run crash-recovery on activation: if the extension was active when
-   * VS Code was killed, settings may be stuck. Restore them.
+   * VS Code was killed, settings may be stuck. Replay the UIManager journal
+   * to restore them to their exact pre-focus values.
+   *
+   * The journal and marker are shared by all windows, so while another window
+   * still holds a live focus lease they describe that window's session, not a
+   * crash. Recovery is retried after the lease TTL in case that window is
+   * the one that died, for as long as some window's lease stays live.
    */
   async crashRecovery(): Promise<void> {
     const wasActive = this.context.globalState.get<boolean>('focusMode.wasActive', false);
-    if (wasActive) {
-      // Force a restore cycle to clean up any stuck settings
-      try {
-        await this.uiManager.restoreChrome();
-      } catch {
-        // best-effort
-      }
-      await this.context.globalState.update('focusMode.wasActive', false);
-      await vscode.commands.executeCommand('setContext', 'focusMode.active', false);
+    if (!wasActive && !this.uiManager.hasJournal()) { return; }
+
+    if (this.coordinator.othersActive()) {
+      this.scheduleRecovery();
+      return;
     }
+
+    try {
+      await this.uiManager.recoverFromJournal();
+    } catch {
+      // best-effort
+    }
+    await this.context.globalState.update('focusMode.wasActive', false);
+    await vscode.commands.executeCommand('setContext', 'focusMode.active', false);
   }
 
   // ── Private: Event Listeners ──────────────────────────────────
 
-  private registerListeners(config: FocusModeConfig): void {
+  private registerListeners(): void {
     // Cursor movement → update spotlight (debounced)
     this.disposables.push(
       vscode.window.onDidChangeTextEditorSelection((e) => {
@@ -167,15 +438,38 @@ export class FocusMode {
     // Active editor change → reapply decorations + line numbers
     this.disposables.push(
       vscode.window.onDidChangeActiveTextEditor((editor) => {
-        this.onActiveEditorChange(editor, config);
+        this.onActiveEditorChange(editor);
+      })
+    );
+
+    // Moving between notebook cells, or cells moved/added → move the spotlight
+    this.disposables.push(
+      vscode.window.onDidChangeNotebookEditorSelection(() => this.decorateVisibleEditors()),
+      vscode.window.onDidChangeActiveNotebookEditor(() => this.decorateVisibleEditors()),
+      vscode.workspace.onDidChangeNotebookDocument(() => this.decorateVisibleEditors())
+    );
+
+    // Scrolling → long documents are only decorated around the viewport
+    this.disposables.push(
+      vscode.window.onDidChangeTextEditorVisibleRanges((e) => {
+        if (this.isActive) {
+          this.decorate(e.textEditor);
+        }
       })
     );
 
-    // All visible editors closed → auto-exit
+    // Editors shown or hidden → decorate the new ones; all closed → auto-exit
     this.disposables.push(
       vscode.window.onDidChangeVisibleTextEditors((editors) => {
-        if (editors.length === 0 && this.isActive) {
-          this.exit();
+        this.onVisibleEditorsChange(editors);
+      })
+    );
+
+    // Theme change → theme colors follow on their own; high contrast needs new styles
+    this.disposables.push(
+      vscode.window.onDidChangeActiveColorTheme(() => {
+        if (this.isActive && this.config && this.decorationManager.configure(this.config)) {
+          this.decorateVisibleEditors();
         }
       })
     );
@@ -196,35 +490,219 @@ export class FocusMode {
     }
     this.selectionDebounceTimer = setTimeout(() => {
       if (this.isActive) {
-        this.decorationManager.updateDecorations(e.textEditor);
+        // Moving into another hunk of a diff moves the spotlight on both sides
+        if (this.review.follow(e.textEditor)) {
+          this.decorateVisibleEditors();
+        } else {
+          this.decorate(e.textEditor);
+        }
+        // Don't yank the view while the user is clicking or dragging
+        if (this.level === 'full' && e.kind !== vscode.TextEditorSelectionChangeKind.Mouse) {
+          this.typewriter.scroll(e.textEditor);
+        }
       }
     }, 16);
   }
 
-  private onActiveEditorChange(
-    editor: vscode.TextEditor | undefined,
-    config: FocusModeConfig
-  ): void {
+  private async onActiveEditorChange(editor: vscode.TextEditor | undefined): Promise<void> {
     if (!editor || !this.isActive) { return; }
 
-    // Reapply line-number policy for the new editor
-    this.uiManager.applyLineNumbers(editor, config);
+    // Re-resolve settings for the new document (language and folder overrides)
+    const config = getConfig(this.preset, editor.document, this.overrides);
+    this.config = config;
+    this.decorationManager.configure(config);
+
+    if (this.level === 'full') {
+      this.typewriter.configure(config);
+      this.watchdog.configure(config);
+
+      // Reapply line-number policy for the new editor
+      this.uiManager.applyLineNumbers(editor, config);
+    }
 
-    // Reapply dimming
-    this.decorationManager.updateDecorations(editor);
+    // Reapply dimming: the new editor gets the spotlight, the previous one may dim
+    this.decorateVisibleEditors();
+
+    if (this.level !== 'full') { return; }
+
+    // Typewriter settings can differ per language, and the padding is one setting for all editors
+    try {
+      if (this.typewriter.isEnabled) {
+        await this.uiManager.applyTypewriterPadding(this.typewriter.topPadding(editor));
+        this.typewriter.scroll(editor);
+      } else {
+        await this.uiManager.restoreTypewriterPadding();
+      }
+    } catch {
+      // best-effort: padding is cosmetic
+    }
   }
 
-  private onConfigChange(): void {
+  private onVisibleEditorsChange(editors: readonly vscode.TextEditor[]): void {
     if (!this.isActive) { return; }
+    // A notebook showing only rendered Markdown has no cell editors
+    if (editors.length === 0 && !vscode.window.activeNotebookEditor) {
+      this.exit();
+      return;
+    }
+    this.decorationManager.retainEditors(editors);
+    this.decorateVisibleEditors();
+  }
 
-    const config = getConfig();
-    this.decorationManager.recreate(config.opacity);
+  private async onConfigChange(): Promise<void> {
+    if (!this.isActive) { return; }
 
     const editor = vscode.window.activeTextEditor;
+    const config = getConfig(this.preset, editor?.document, this.overrides);
+    this.config = config;
+    this.decorationManager.recreate(config);
+    this.decorateVisibleEditors();
+
+    // Soft focus only dims
+    if (this.level === 'soft') { return; }
+
+    this.typewriter.configure(config);
+    this.watchdog.configure(config);
     if (editor) {
-      this.decorationManager.updateDecorations(editor);
       this.uiManager.applyLineNumbers(editor, config);
     }
+
+    try {
+      if (this.typewriter.isEnabled && editor) {
+        await this.uiManager.applyTypewriterPadding(this.typewriter.topPadding(editor));
+        this.typewriter.scroll(editor);
+      } else if (!this.typewriter.isEnabled) {
+        await this.uiManager.restoreTypewriterPadding();
+      }
+    } catch {
+      // best-effort: padding is cosmetic
+    }
+  }
+
+  private async recordSession(record: SessionRecord): Promise<void> {
+    // Quick toggles aren't sessions worth keeping
+    if (record.durationMs < MIN_RECORDED_SESSION_MS) { return; }
+
+    try {
+      await this.history.append(record);
+    } catch {
+      // best-effort: stats must never block exit
+    }
+    if (vscode.workspace.getConfiguration('focusMode').get<boolean>('sessionSummary', true)) {
+      vscode.window.showInformationMessage(`Focus Mode: ${StatsHistory.summarize(record)}`, 'Show Stats').then((action) => {
+        if (action) { this.showStats(); }
+      });
+    }
+  }
+
+  /** Undo the teardown steps `exit` took before it failed, leaving the session running. */
+  private async resumeAfterFailedExit(): Promise<void> {
+    this.registerListeners();
+    if (this.level === 'full' && this.config) {
+      this.watchdog.configure(this.config);
+      const editor = vscode.window.activeTextEditor;
+      if (editor) {
+        this.uiManager.applyLineNumbers(editor, this.config);
+      }
+    }
+    this.decorateVisibleEditors();
+    await vscode.commands.executeCommand('setContext', 'focusMode.active', true);
+  }
+
+  /**
+   * Retry crash recovery after the lease TTL. While this window is in focus
+   * mode the journal describes its own session, so the retry waits for another TTL.
+   */
+  private scheduleRecovery(): void {
+    if (this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+    }
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = undefined;
+      if (this.isActive || this.isTransitioning) {
+        this.scheduleRecovery();
+        return;
+      }
+      this.crashRecovery().catch(() => undefined);
+    }, this.coordinator.leaseTtl);
+  }
+
+  private fireState(state: FocusState): void {
+    this.stateEmitter.fire({ state, level: this.level, preset: this.preset });
+  }
+
+  private async stepHunk(delta: 1 | -1): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !this.review.isDiff(editor)) {
+      vscode.window.showInformationMessage('Focus Mode: Open a diff editor to step through its changes.');
+      return;
+    }
+    // Step first: entering lights the hunk at the cursor, and stepping after would skip it
+    const span = this.review.step(editor, delta);
+    if (!span) {
+      vscode.window.showInformationMessage('Focus Mode: No changes in this diff.');
+      return;
+    }
+    if (!this.isActive) {
+      await this.enter();
+      if (!this.isActive) { return; }
+    }
+
+    // The cursor goes along, so typing and scrolling stay with the hunk
+    const target = vscode.window.activeTextEditor ?? editor;
+    const start = new vscode.Position(span.start, 0);
+    target.selection = new vscode.Selection(start, start);
+    target.revealRange(new vscode.Range(span.start, 0, span.end, 0), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    this.decorateVisibleEditors();
+  }
+
+  private resizeSpotlight(resize: () => boolean): void {
+    if (!this.isActive) { return; }
+
+    if (resize()) {
+      this.decorateVisibleEditors();
+    }
+  }
+
+  /**
+   * Repaint every visible editor. Settings are those of the active editor's
+   * document, since the decoration types are shared.
+   */
+  private decorateVisibleEditors(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      this.decorate(editor);
+    }
+  }
+
+  /**
+   * Spotlight an editor around its own cursor, or dim it entirely if it is
+   * not the active editor and `inactiveEditors` is `dim`. Diff editors
+   * spotlight their current hunk instead.
+   */
+  private decorate(editor: vscode.TextEditor): void {
+    if (NotebookFocus.isCell(editor.document)) {
+      // Notebooks: the active cell stays lit, every other cell dims
+      const activeCell = NotebookFocus.activeCell(vscode.window.activeTextEditor, vscode.window.activeNotebookEditor);
+      if (editor.document === activeCell) {
+        this.decorationManager.lightEditor(editor);
+      } else {
+        this.decorationManager.dimEditor(editor);
+      }
+      return;
+    }
+
+    const hunk = this.review.spotlight(editor, this.config?.reviewProgress ?? true);
+    if (hunk) {
+      this.decorationManager.spotlightSpans(editor, hunk);
+      return;
+    }
+
+    const active = vscode.window.activeTextEditor;
+    if (this.config?.inactiveEditors === 'dim' && active && editor !== active) {
+      this.decorationManager.dimEditor(editor);
+    } else {
+      this.decorationManager.updateDecorations(editor);
+    }
   }
 
   private disposeListeners(): void {
@@ -0,0 +1,292 @@
+import * as vscode from 'vscode';
+import { getSessionConfig, SessionConfig } from './config';
+import { FocusMode, FocusState } from './focusMode';
+
+export type SessionPhase = 'work' | 'break';
+
+/** Persisted timer state; survives window reloads via globalState. */
+interface SessionState {
+  phase: SessionPhase;
+  /** 1-based index of the current (or, during a break, the last) focus block. */
+  round: number;
+  /** Epoch ms at which the current phase ends. */
+  endsAt: number;
+  /** Whether the end-of-phase warning has been shown. */
+  warned: boolean;
+  plan: SessionConfig;
+  /** Workspace the session was started in, so other windows don't pick it up. */
+  workspace: string | undefined;
+}
+
+const SESSION_KEY = 'focusMode.session';
+const TICK_MS = 1000;
+/** A session whose phase ended longer ago than this is dropped instead of resumed. */
+const RESUME_GRACE_MS = 5 * 60_000;
+
+/**
+ * Timed focus sessions: Pomodoro-style work/break cycles.
+ *
+ * A work phase enters focus mode and a break exits it. The countdown is shown
+ * in a status bar item and, because focus mode usually hides the status bar,
+ * as an inline annotation on the first visible line of the active editor.
+ *
+ * Leaving focus mode during a focus block (Esc, the toggle) stops the session,
+ * so the next phase doesn't pull the user back in.
+ */
+export class FocusSession {
+  private state: SessionState | undefined;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private advancing = false;
+  private statusItem: vscode.StatusBarItem;
+  private countdownDecoration: vscode.TextEditorDecorationType;
+  private decoratedEditor: vscode.TextEditor | undefined;
+  /** Latest focus mode state, to notice focus mode being left during a focus block. */
+  private focusState: FocusState;
+  private stateListener: vscode.Disposable;
+
+  constructor(private context: vscode.ExtensionContext, private focusMode: FocusMode) {
+    this.focusState = focusMode.active ? 'active' : 'inactive';
+    this.stateListener = focusMode.onDidChangeState((e) => {
+      this.focusState = e.state;
+    });
+    this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.statusItem.command = 'focusMode.stopSession';
+    this.countdownDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('descriptionForeground'),
+        margin: '0 0 0 3em',
+      },
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+    });
+  }
+
+  /**
+   * Start a session, replacing any running one.
+   * Without a plan, the user is asked for the focus block length; other values
+   * come from the `focusMode.session*` settings.
+   */
+  async start(plan?: Partial<SessionConfig>): Promise<void> {
+    if (plan === undefined) {
+      const defaults = getSessionConfig();
+      const input = await vscode.window.showInputBox({
+        prompt: 'Focus block length in minutes',
+        value: String(defaults.minutes),
+        validateInput: (value) => (/^\s*\d+\s*$/.test(value) && Number(value) > 0 ? undefined : 'Enter a whole number of minutes'),
+      });
+      if (input === undefined) { return; }
+      plan = { minutes: Number(input) };
+    }
+
+    const resolved = getSessionConfig(plan);
+    if (resolved.breakMinutes === 0) {
+      // No breaks means one focus block; keeps "block 1 of N" messages honest
+      resolved.cycles = 1;
+    }
+
+    await this.clear();
+    await this.beginPhase('work', 1, resolved);
+
+    if (!this.focusMode.active) {
+      // Couldn't enter focus mode (e.g. no editor open) — don't leave a timer behind
+      await this.clear();
+    }
+  }
+
+  /** Stop the running session and leave focus mode. */
+  async stop(): Promise<void> {
+    if (!this.state) { return; }
+    await this.clear();
+    await this.focusMode.exit();
+    vscode.window.showInformationMessage('Focus Mode: Session stopped.');
+  }
+
+  /** Pick up a session persisted before a window reload. */
+  async resume(): Promise<void> {
+    const state = this.context.globalState.get<SessionState>(SESSION_KEY);
+    if (!state || state.workspace !== FocusSession.workspaceKey()) { return; }
+
+    if (Date.now() - state.endsAt > RESUME_GRACE_MS) {
+      await this.context.globalState.update(SESSION_KEY, undefined);
+      return;
+    }
+
+    this.state = state;
+    if (state.phase === 'work' && state.endsAt > Date.now()) {
+      await this.focusMode.enter();
+    }
+    await vscode.commands.executeCommand('setContext', 'focusMode.sessionActive', true);
+    this.startTimer();
+  }
+
+  dispose(): void {
+    // Keep the persisted state so the session resumes after a reload
+    this.stopTimer();
+    this.stateListener.dispose();
+    this.statusItem.dispose();
+    this.countdownDecoration.dispose();
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * The phase that follows `phase`, or undefined when the session is over.
+   * A session without breaks ends after its first focus block.
+   */
+  static nextPhase(
+    phase: SessionPhase,
+    round: number,
+    plan: SessionConfig
+  ): { phase: SessionPhase; round: number } | undefined {
+    if (phase === 'break') {
+      return { phase: 'work', round: round + 1 };
+    }
+    if (plan.breakMinutes === 0 || round >= plan.cycles) {
+      return undefined;
+    }
+    return { phase: 'break', round };
+  }
+
+  /** Format remaining time as `m:ss`, or `h:mm:ss` from one hour. Rounds up to the second. */
+  static formatRemaining(ms: number): string {
+    const total = Math.max(0, Math.ceil(ms / 1000));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const seconds = String(total % 60).padStart(2, '0');
+    return hours > 0
+      ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+      : `${minutes}:${seconds}`;
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  private async beginPhase(phase: SessionPhase, round: number, plan: SessionConfig): Promise<void> {
+    const minutes = phase === 'work' ? plan.minutes : plan.breakMinutes;
+    this.state = {
+      phase,
+      round,
+      endsAt: Date.now() + minutes * 60_000,
+      warned: false,
+      plan,
+      workspace: FocusSession.workspaceKey(),
+    };
+    await this.context.globalState.update(SESSION_KEY, this.state);
+    await vscode.commands.executeCommand('setContext', 'focusMode.sessionActive', true);
+
+    if (phase === 'work') {
+      await this.focusMode.enter();
+    } else {
+      await this.focusMode.exit();
+      vscode.window.showInformationMessage(`Focus Mode: Break time — ${plan.breakMinutes} min.`);
+    }
+
+    this.startTimer();
+  }
+
+  private async tick(): Promise<void> {
+    const state = this.state;
+    if (!state || this.advancing) { return; }
+
+    const remaining = state.endsAt - Date.now();
+    if (remaining <= 0) {
+      this.advancing = true;
+      try {
+        await this.advance(state);
+      } finally {
+        this.advancing = false;
+      }
+      return;
+    }
+
+    // Checked on the tick rather than on the event: switching presets exits and
+    // re-enters, and is back to `entering` well before the next tick
+    if (state.phase === 'work' && this.focusState === 'inactive') {
+      await this.clear();
+      vscode.window.showInformationMessage('Focus Mode: Session stopped — focus mode was turned off.');
+      return;
+    }
+
+    const warnAt = state.plan.warningMinutes * 60_000;
+    if (!state.warned && warnAt > 0 && remaining <= warnAt) {
+      state.warned = true;
+      this.context.globalState.update(SESSION_KEY, state);
+      const left = `${state.plan.warningMinutes} minute${state.plan.warningMinutes === 1 ? '' : 's'}`;
+      vscode.window.showInformationMessage(
+        state.phase === 'work'
+          ? `Focus Mode: ${left} left in focus block ${state.round} of ${state.plan.cycles}.`
+          : `Focus Mode: Break ends in ${left}.`
+      );
+    }
+
+    this.render(state, remaining);
+  }
+
+  private async advance(state: SessionState): Promise<void> {
+    const next = FocusSession.nextPhase(state.phase, state.round, state.plan);
+    if (next) {
+      await this.beginPhase(next.phase, next.round, state.plan);
+      return;
+    }
+
+    await this.clear();
+    await this.focusMode.exit();
+    vscode.window.showInformationMessage(
+      `Focus Mode: Session complete — ${state.round} focus block${state.round === 1 ? '' : 's'}.`
+    );
+  }
+
+  private render(state: SessionState, remaining: number): void {
+    const text = FocusSession.formatRemaining(remaining);
+    this.statusItem.text = `$(${state.phase === 'work' ? 'eye' : 'coffee'}) ${text}`;
+    this.statusItem.tooltip = state.phase === 'work'
+      ? `Focus block ${state.round} of ${state.plan.cycles} — click to stop the session`
+      : `Break — click to stop the session`;
+    this.statusItem.show();
+
+    // The status bar is usually hidden in focus mode, so mirror the countdown in the editor
+    const editor = state.phase === 'work' && this.focusMode.active ? vscode.window.activeTextEditor : undefined;
+    if (this.decoratedEditor && this.decoratedEditor !== editor) {
+      this.decoratedEditor.setDecorations(this.countdownDecoration, []);
+    }
+    this.decoratedEditor = editor;
+    if (!editor || editor.visibleRanges.length === 0) { return; }
+
+    const end = editor.document.lineAt(editor.visibleRanges[0].start.line).range.end;
+    editor.setDecorations(this.countdownDecoration, [{
+      range: new vscode.Range(end, end),
+      renderOptions: { after: { contentText: `⏱ ${text}` } },
+    }]);
+  }
+
+  /** Drop the session state, timer and countdown without touching focus mode. */
+  private async clear(): Promise<void> {
+    this.stopTimer();
+    this.state = undefined;
+    this.statusItem.hide();
+    this.decoratedEditor?.setDecorations(this.countdownDecoration, []);
+    this.decoratedEditor = undefined;
+    await this.context.globalState.update(SESSION_KEY, undefined);
+    await vscode.commands.executeCommand('setContext', 'focusMode.sessionActive', false);
+  }
+
+  private startTimer(): void {
+    this.stopTimer();
+    const tick = () => this.tick().catch((err) => {
+      // Retrying every second would repeat the same failure
+      this.stopTimer();
+      vscode.window.showErrorMessage(`Focus Mode: Session timer stopped — ${err}`);
+    });
+    this.timer = setInterval(tick, TICK_MS);
+    tick();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private static workspaceKey(): string | undefined {
+    return (vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri)?.toString();
+  }
+}
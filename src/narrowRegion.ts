@@ -0,0 +1,444 @@
+import * as vscode from 'vscode';
+import { FocusMode } from './focusMode';
+import { SymbolSpotlight } from './symbolSpotlight';
+
+/** Character span in a document, by offset. */
+export interface OffsetSpan {
+  start: number;
+  length: number;
+}
+
+/** One content change, by offset into the text before the change. */
+export interface OffsetChange {
+  offset: number;
+  removed: number;
+  inserted: number;
+}
+
+interface NarrowSession {
+  source: vscode.Uri;
+  buffer: vscode.TextDocument;
+  /** Where the buffer's text lives in the source document. */
+  region: OffsetSpan;
+  /** The source changed inside the region; syncing waits for the user to decide. */
+  conflicted: boolean;
+  /** The write-back being applied, to recognize that edit in the source. */
+  writing: OffsetChange | undefined;
+  /** Set while replacing the buffer's text from the source, so it isn't synced back. */
+  reloading: boolean;
+}
+
+const NARROW_SCHEME = 'focusmode-narrow';
+/** Pause in typing after which the buffer is written back to the source. */
+const SYNC_DELAY_MS = 750;
+
+/**
+ * Narrow-to-region: opens the selection, or the function or Markdown section
+ * around the cursor, as its own editor and enters focus mode on it.
+ *
+ * The buffer lives on an in-memory file system, so it can be saved and closed
+ * without prompts. Edits are written back to the same range of the source
+ * document after a pause in typing, and when the buffer is saved, loses focus
+ * or is widened (saving the buffer saves the source). Only the text that
+ * differs is replaced, so each write-back is one small step in the source's
+ * undo history rather than a rewrite of the whole region. Edits to the source outside
+ * the range just move it; an edit inside it is a conflict, and syncing stops
+ * until the user reloads the buffer or overwrites the source.
+ *
+ * One region is narrowed at a time; narrowing again widens first.
+ */
+export class NarrowRegion {
+  private session: NarrowSession | undefined;
+  private files = new NarrowFileSystem();
+  private symbols = new SymbolSpotlight();
+  private queue: Promise<void> = Promise.resolve();
+  private nextId = 1;
+  private syncTimer: ReturnType<typeof setTimeout> | undefined;
+  private disposables: vscode.Disposable[];
+
+  constructor(private focusMode: FocusMode) {
+    this.disposables = [
+      vscode.workspace.registerFileSystemProvider(NARROW_SCHEME, this.files, { isCaseSensitive: true }),
+      vscode.workspace.onDidChangeTextDocument((e) => this.onChange(e)),
+      vscode.workspace.onDidSaveTextDocument((doc) => this.onSave(doc)),
+      vscode.workspace.onDidCloseTextDocument((doc) => this.onClose(doc)),
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (this.session && editor?.document !== this.session.buffer) { this.flush(); }
+      }),
+      vscode.window.onDidChangeWindowState((state) => {
+        if (this.session && !state.focused) { this.flush(); }
+      }),
+    ];
+  }
+
+  /** Open the target region of the active editor as a focus buffer. */
+  async narrow(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showWarningMessage('Focus Mode: No active editor to narrow.');
+      return;
+    }
+    if (editor.document.uri.scheme === NARROW_SCHEME) {
+      vscode.window.showInformationMessage('Focus Mode: Already narrowed. Widen first to pick another region.');
+      return;
+    }
+
+    const range = await this.targetRange(editor);
+    if (!range) {
+      vscode.window.showInformationMessage('Focus Mode: Select text, or place the cursor in a function or section, to narrow.');
+      return;
+    }
+    if (this.session) {
+      await this.widen();
+      // Widening was cancelled at the conflict prompt: keep the current buffer
+      if (this.session) { return; }
+    }
+
+    const source = editor.document;
+    const text = source.getText(range);
+    const uri = vscode.Uri.from({
+      scheme: NARROW_SCHEME,
+      path: `/${this.nextId++}/${source.uri.path.split('/').pop() || 'region'}`,
+    });
+    this.files.writeFile(uri, new TextEncoder().encode(text));
+
+    let buffer = await vscode.workspace.openTextDocument(uri);
+    if (buffer.languageId !== source.languageId) {
+      buffer = await vscode.languages.setTextDocumentLanguage(buffer, source.languageId);
+    }
+    this.session = {
+      source: source.uri,
+      buffer,
+      region: { start: source.offsetAt(range.start), length: text.length },
+      conflicted: false,
+      writing: undefined,
+      reloading: false,
+    };
+    await vscode.commands.executeCommand('setContext', 'focusMode.narrowed', true);
+
+    await vscode.window.showTextDocument(buffer, { preview: false });
+    if (!this.focusMode.active || this.focusMode.activeLevel === 'soft') {
+      await this.focusMode.enter();
+    }
+  }
+
+  /** Close the focus buffer and return to the region in the source document. */
+  async widen(): Promise<void> {
+    const session = this.session;
+    if (!session) { return; }
+
+    if (session.conflicted) {
+      const choice = await vscode.window.showWarningMessage(
+        'Focus Mode: The source changed inside the narrowed region. Keep the narrowed text?',
+        { modal: true },
+        'Overwrite Source',
+        'Discard'
+      );
+      if (!choice) { return; }
+      if (choice === 'Overwrite Source') {
+        session.conflicted = false;
+      }
+    }
+    await this.flush();
+    this.end();
+
+    // Saving goes to the in-memory file, so the tab closes without a prompt
+    if (session.buffer.isDirty) {
+      await session.buffer.save();
+    }
+    const tabs = vscode.window.tabGroups.all.flatMap((group) => group.tabs).filter((tab) =>
+      tab.input instanceof vscode.TabInputText && tab.input.uri.toString() === session.buffer.uri.toString()
+    );
+    await vscode.window.tabGroups.close(tabs);
+    this.files.delete(session.buffer.uri);
+
+    const source = await vscode.workspace.openTextDocument(session.source);
+    const start = source.positionAt(session.region.start);
+    const end = source.positionAt(session.region.start + session.region.length);
+    const editor = await vscode.window.showTextDocument(source, { selection: new vscode.Range(start, start) });
+    editor.revealRange(new vscode.Range(start, end), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+
+  dispose(): void {
+    this.cancelSync();
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this.disposables = [];
+    this.session = undefined;
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * Move a region through one source change. A change entirely before it
+   * shifts it (an insertion at its start counts as before), one after it
+   * leaves it alone. A change overlapping it is a conflict: the region grows
+   * to cover both, so reloading picks up the changed text.
+   */
+  static shiftRegion(region: OffsetSpan, change: OffsetChange): OffsetSpan & { overlaps: boolean } {
+    const end = region.start + region.length;
+    const changeEnd = change.offset + change.removed;
+    const delta = change.inserted - change.removed;
+
+    if (changeEnd <= region.start) {
+      return { start: region.start + delta, length: region.length, overlaps: false };
+    }
+    if (change.offset >= end) {
+      return { ...region, overlaps: false };
+    }
+
+    const start = Math.min(region.start, change.offset);
+    return { start, length: Math.max(end, changeEnd) + delta - start, overlaps: true };
+  }
+
+  /**
+   * The smallest change turning `before` into `after`: everything between
+   * their common prefix and common suffix.
+   */
+  static changedSpan(before: string, after: string): OffsetChange {
+    const shorter = Math.min(before.length, after.length);
+    let prefix = 0;
+    while (prefix < shorter && before.charCodeAt(prefix) === after.charCodeAt(prefix)) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < shorter - prefix &&
+      before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)
+    ) {
+      suffix++;
+    }
+    // Don't split a surrogate pair; the edit would replace half a character
+    if (prefix > 0 && isHighSurrogate(before.charCodeAt(prefix - 1))) {
+      prefix--;
+    }
+    if (suffix > 0 && isHighSurrogate(before.charCodeAt(before.length - 1 - suffix))) {
+      suffix--;
+    }
+    return { offset: prefix, removed: before.length - prefix - suffix, inserted: after.length - prefix - suffix };
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  /** The non-empty selection, else the innermost symbol around the cursor as whole lines. */
+  private async targetRange(editor: vscode.TextEditor): Promise<vscode.Range | undefined> {
+    if (!editor.selection.isEmpty) {
+      return editor.selection;
+    }
+
+    const document = editor.document;
+    await this.symbols.load(document);
+    const span = SymbolSpotlight.findEnclosing(
+      this.symbols.peek(document) ?? [],
+      editor.selection.active.line,
+      document.languageId
+    );
+    this.symbols.clear();
+    return span && new vscode.Range(span.start, 0, span.end, document.lineAt(span.end).text.length);
+  }
+
+  private onChange(e: vscode.TextDocumentChangeEvent): void {
+    const session = this.session;
+    if (!session || e.contentChanges.length === 0) { return; }
+
+    if (e.document === session.buffer) {
+      if (!session.reloading && !session.conflicted) {
+        this.scheduleSync();
+      }
+      return;
+    }
+    if (e.document.uri.toString() !== session.source.toString()) { return; }
+
+    // Offsets refer to the text before the event: apply bottom-up
+    const changes = [...e.contentChanges].sort((a, b) => b.rangeOffset - a.rangeOffset);
+    let overlaps = false;
+    for (const change of changes) {
+      const { region, writing } = session;
+      if (
+        writing &&
+        change.rangeOffset === writing.offset &&
+        change.rangeLength === writing.removed &&
+        change.text.length === writing.inserted
+      ) {
+        // Our own write-back
+        session.region = { start: region.start, length: region.length + writing.inserted - writing.removed };
+        continue;
+      }
+      const shifted = NarrowRegion.shiftRegion(region, {
+        offset: change.rangeOffset,
+        removed: change.rangeLength,
+        inserted: change.text.length,
+      });
+      session.region = { start: shifted.start, length: shifted.length };
+      overlaps = overlaps || shifted.overlaps;
+    }
+
+    if (overlaps && !session.conflicted) {
+      session.conflicted = true;
+      this.resolveConflict(session);
+    }
+  }
+
+  private async resolveConflict(session: NarrowSession): Promise<void> {
+    const choice = await vscode.window.showWarningMessage(
+      `Focus Mode: ${vscode.workspace.asRelativePath(session.source)} changed inside the narrowed region. ` +
+        'Edits here are not synced until you choose.',
+      'Reload from Source',
+      'Overwrite Source'
+    );
+    if (this.session !== session || !session.conflicted) { return; }
+
+    if (choice === 'Reload from Source') {
+      const source = await vscode.workspace.openTextDocument(session.source);
+      const text = source.getText(new vscode.Range(
+        source.positionAt(session.region.start),
+        source.positionAt(session.region.start + session.region.length)
+      ));
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(session.buffer.uri, new vscode.Range(0, 0, session.buffer.lineCount, 0), text);
+      session.reloading = true;
+      try {
+        await vscode.workspace.applyEdit(edit);
+      } finally {
+        session.reloading = false;
+      }
+      session.conflicted = false;
+    } else if (choice === 'Overwrite Source') {
+      session.conflicted = false;
+      await this.flush();
+    }
+  }
+
+  /** Write the buffer back once typing pauses. */
+  private scheduleSync(): void {
+    this.cancelSync();
+    this.syncTimer = setTimeout(() => this.flush(), SYNC_DELAY_MS);
+  }
+
+  private cancelSync(): void {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+  }
+
+  /** Write the buffer back now, instead of after the pause. */
+  private flush(): Promise<void> {
+    this.cancelSync();
+    return this.sync();
+  }
+
+  /** Queue a write-back of the buffer, so consecutive edits apply in order. */
+  private sync(): Promise<void> {
+    this.queue = this.queue.then(() => this.writeBack()).catch((err) => {
+      vscode.window.showErrorMessage(`Focus Mode: Could not update the source — ${err}`);
+    });
+    return this.queue;
+  }
+
+  private async writeBack(): Promise<void> {
+    const session = this.session;
+    if (!session || session.conflicted) { return; }
+
+    const source = await vscode.workspace.openTextDocument(session.source);
+    const { start, length } = session.region;
+    const before = source.getText(new vscode.Range(source.positionAt(start), source.positionAt(start + length)));
+    const after = session.buffer.getText();
+    if (before === after) { return; }
+
+    const change = NarrowRegion.changedSpan(before, after);
+    const offset = start + change.offset;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      session.source,
+      new vscode.Range(source.positionAt(offset), source.positionAt(offset + change.removed)),
+      after.slice(change.offset, change.offset + change.inserted)
+    );
+    session.writing = { ...change, offset };
+    try {
+      if (!(await vscode.workspace.applyEdit(edit))) {
+        throw new Error('the edit was rejected');
+      }
+    } finally {
+      session.writing = undefined;
+    }
+  }
+
+  private async onSave(doc: vscode.TextDocument): Promise<void> {
+    const session = this.session;
+    if (doc !== session?.buffer || session.conflicted) { return; }
+    await this.flush();
+    const source = await vscode.workspace.openTextDocument(session.source);
+    await source.save();
+  }
+
+  /** Closing the buffer ends the session, once its last edits are written back. */
+  private async onClose(doc: vscode.TextDocument): Promise<void> {
+    const session = this.session;
+    if (doc !== session?.buffer) { return; }
+    await this.flush();
+    if (this.session === session) { this.end(); }
+  }
+
+  private end(): void {
+    this.cancelSync();
+    this.session = undefined;
+    vscode.commands.executeCommand('setContext', 'focusMode.narrowed', false);
+  }
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/** In-memory files backing focus buffers; content is only read back by the editor. */
+class NarrowFileSystem implements vscode.FileSystemProvider {
+  private files = new Map<string, { data: Uint8Array; mtime: number }>();
+  private emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+
+  readonly onDidChangeFile = this.emitter.event;
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => undefined);
+  }
+
+  stat(uri: vscode.Uri): vscode.FileStat {
+    const file = this.get(uri);
+    return { type: vscode.FileType.File, ctime: file.mtime, mtime: file.mtime, size: file.data.length };
+  }
+
+  readDirectory(): [string, vscode.FileType][] {
+    return [];
+  }
+
+  createDirectory(): void {
+    // Buffers are flat; parent paths only keep their names unique
+  }
+
+  readFile(uri: vscode.Uri): Uint8Array {
+    return this.get(uri).data;
+  }
+
+  writeFile(uri: vscode.Uri, content: Uint8Array): void {
+    const exists = this.files.has(uri.toString());
+    this.files.set(uri.toString(), { data: content, mtime: Date.now() });
+    this.emitter.fire([{ type: exists ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri }]);
+  }
+
+  delete(uri: vscode.Uri): void {
+    if (this.files.delete(uri.toString())) {
+      this.emitter.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+    }
+  }
+
+  rename(): void {
+    throw vscode.FileSystemError.NoPermissions('Focus buffers cannot be renamed');
+  }
+
+  private get(uri: vscode.Uri): { data: Uint8Array; mtime: number } {
+    const file = this.files.get(uri.toString());
+    if (!file) { throw vscode.FileSystemError.FileNotFound(uri); }
+    return file;
+  }
+}
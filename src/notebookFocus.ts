@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { FocusModeConfig } from './config';
+
+const CELL_SCHEME = 'vscode-notebook-cell';
+
+/**
+ * Notebook side of focus mode: which cell is "active", and collapsing cell
+ * outputs for the session (`collapseNotebookOutputs`).
+ *
+ * Each cell has its own text editor, so the spotlight works per cell: the
+ * active cell stays lit and the other cell editors are dimmed entirely.
+ */
+export class NotebookFocus {
+  /** Notebook whose outputs were collapsed on entry, to expand them again on exit. */
+  private collapsedIn: vscode.NotebookDocument | undefined;
+  /** Notebooks left collapsed on exit because they weren't active; expanded when they next are. */
+  private expandLater = new Set<vscode.NotebookDocument>();
+  private expandListeners: vscode.Disposable[] = [];
+
+  /** Collapse the active notebook's outputs if the config asks for it. */
+  async enter(config: FocusModeConfig): Promise<void> {
+    const notebook = vscode.window.activeNotebookEditor?.notebook;
+    if (!notebook || !config.collapseNotebookOutputs) { return; }
+    await vscode.commands.executeCommand('notebook.cell.collapseAllCellOutputs');
+    this.collapsedIn = notebook;
+    this.forget(notebook);
+  }
+
+  /**
+   * Expand the outputs collapsed on entry. Individual cells' earlier
+   * collapsed state isn't kept; every output is expanded.
+   *
+   * The expand command acts on the active notebook, and showing the notebook
+   * to run it would take focus from wherever the user went. A notebook that
+   * isn't active is expanded when it next becomes active instead.
+   */
+  async exit(): Promise<void> {
+    const notebook = this.collapsedIn;
+    this.collapsedIn = undefined;
+    if (!notebook || notebook.isClosed) { return; }
+
+    if (vscode.window.activeNotebookEditor?.notebook === notebook) {
+      await vscode.commands.executeCommand('notebook.cell.expandAllCellOutputs');
+      return;
+    }
+    this.expandLater.add(notebook);
+    if (this.expandListeners.length === 0) {
+      this.expandListeners = [
+        vscode.window.onDidChangeActiveNotebookEditor((editor) => {
+          if (!editor || !this.expandLater.has(editor.notebook)) { return; }
+          this.forget(editor.notebook);
+          vscode.commands.executeCommand('notebook.cell.expandAllCellOutputs').then(undefined, () => undefined);
+        }),
+        vscode.workspace.onDidCloseNotebookDocument((closed) => this.forget(closed)),
+      ];
+    }
+  }
+
+  dispose(): void {
+    this.expandLater.clear();
+    this.expandListeners.forEach((d) => d.dispose());
+    this.expandListeners = [];
+  }
+
+  /** Whether the document is a notebook cell. */
+  static isCell(document: vscode.TextDocument): boolean {
+    return document.uri.scheme === CELL_SCHEME;
+  }
+
+  /**
+   * The active cell's document: the cell being edited, else the first
+   * selected cell of the notebook (pass the window's active editors).
+   */
+  static activeCell(
+    editor: vscode.TextEditor | undefined,
+    notebook: vscode.NotebookEditor | undefined
+  ): vscode.TextDocument | undefined {
+    if (editor && NotebookFocus.isCell(editor.document)) {
+      return editor.document;
+    }
+
+    if (!notebook || notebook.selection.isEmpty) { return undefined; }
+    return notebook.notebook.cellAt(notebook.selection.start).document;
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  /** Stop waiting to expand `notebook`; stop listening once nothing is left. */
+  private forget(notebook: vscode.NotebookDocument): void {
+    this.expandLater.delete(notebook);
+    if (this.expandLater.size === 0) {
+      this.dispose();
+    }
+  }
+}
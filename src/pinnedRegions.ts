@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { DecorationManager } from './decorationManager';
+import { LineSpan } from './symbolSpotlight';
+
+/** A text change reduced to what moves lines: the replaced lines and the line breaks inserted. */
+export interface LineChange {
+  /** First replaced line (0-based). */
+  startLine: number;
+  /** Last replaced line (0-based, inclusive). */
+  endLine: number;
+  /** Line breaks in the inserted text. */
+  insertedLines: number;
+}
+
+const PINS_KEY = 'focusMode.pins';
+
+/**
+ * User-pinned line spans that the spotlight never dims, e.g. an interface
+ * definition or an outline kept readable while writing elsewhere.
+ *
+ * Pins are stored per document URI in workspace state and follow edits, so
+ * they keep covering the same text as lines are added or removed around them.
+ * Edits are tracked whether or not focus mode is on.
+ */
+export class PinnedRegions {
+  private pins: Record<string, LineSpan[]>;
+  private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private listener: vscode.Disposable;
+
+  /** Fires with the document whose pins changed. */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.pins = context.workspaceState.get<Record<string, LineSpan[]>>(PINS_KEY, {});
+    this.listener = vscode.workspace.onDidChangeTextDocument((e) => this.onEdit(e));
+  }
+
+  /** Pinned spans of a document, clamped to its current length. */
+  get(document: vscode.TextDocument): LineSpan[] {
+    const last = document.lineCount - 1;
+    return (this.pins[document.uri.toString()] ?? [])
+      .filter((span) => span.start <= last)
+      .map((span) => ({ start: span.start, end: Math.min(span.end, last) }));
+  }
+
+  /** Pin the lines covered by the active editor's selections. */
+  async pinSelection(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showWarningMessage('Focus Mode: No active editor to pin from.');
+      return;
+    }
+
+    const key = editor.document.uri.toString();
+    const added = DecorationManager.getSelectionSpans(editor.selections);
+    await this.update(editor.document.uri, DecorationManager.mergeSpans([...(this.pins[key] ?? []), ...added]));
+  }
+
+  /** Remove every pin in the active document. */
+  async unpinAll(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !this.pins[editor.document.uri.toString()]) {
+      vscode.window.showInformationMessage('Focus Mode: No pins in this file.');
+      return;
+    }
+    await this.update(editor.document.uri, []);
+  }
+
+  /** Pick a pin from all files in the workspace to jump to it, or remove it with its button. */
+  async listPins(): Promise<void> {
+    type PinItem = vscode.QuickPickItem & { uri: vscode.Uri; span: LineSpan };
+    const removeButton: vscode.QuickInputButton = {
+      iconPath: new vscode.ThemeIcon('close'),
+      tooltip: 'Unpin',
+    };
+    const items = (): PinItem[] => Object.entries(this.pins).flatMap(([key, spans]) => {
+      const uri = vscode.Uri.parse(key);
+      const open = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === key);
+      return spans.map((span) => ({
+        label: `${vscode.workspace.asRelativePath(uri)}:${PinnedRegions.formatSpan(span)}`,
+        detail: open && span.start < open.lineCount ? open.lineAt(span.start).text.trim() : undefined,
+        buttons: [removeButton],
+        uri,
+        span,
+      }));
+    });
+
+    if (items().length === 0) {
+      vscode.window.showInformationMessage('Focus Mode: No pinned regions.');
+      return;
+    }
+
+    const pick = vscode.window.createQuickPick<PinItem>();
+    pick.placeholder = 'Go to a pinned region';
+    pick.items = items();
+    pick.onDidTriggerItemButton(async ({ item }) => {
+      const key = item.uri.toString();
+      await this.update(item.uri, (this.pins[key] ?? []).filter((span) => span !== item.span));
+      pick.items = items();
+      if (pick.items.length === 0) { pick.hide(); }
+    });
+    pick.onDidAccept(async () => {
+      const item = pick.selectedItems[0];
+      pick.hide();
+      if (!item) { return; }
+      const doc = await vscode.workspace.openTextDocument(item.uri);
+      const range = new vscode.Range(item.span.start, 0, item.span.end, 0);
+      await vscode.window.showTextDocument(doc, { selection: new vscode.Range(range.start, range.start) });
+      vscode.window.activeTextEditor?.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    });
+    pick.onDidHide(() => pick.dispose());
+    pick.show();
+  }
+
+  dispose(): void {
+    this.listener.dispose();
+    this.changeEmitter.dispose();
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * Move a pinned span through one change. Lines inserted or removed above
+   * shift it; a change inside it grows or shrinks it; a change overlapping
+   * an edge clips it to the text that remains. Returns undefined when the
+   * change replaces all of its lines, as the pinned text is gone.
+   */
+  static shiftSpan(span: LineSpan, change: LineChange): LineSpan | undefined {
+    if (change.startLine > span.end) { return span; }
+    if (change.startLine <= span.start && change.endLine > span.end) { return undefined; }
+
+    const delta = change.insertedLines - (change.endLine - change.startLine);
+    if (change.endLine < span.start) {
+      return { start: span.start + delta, end: span.end + delta };
+    }
+
+    const start = Math.min(span.start, change.startLine);
+    const end = change.endLine > span.end
+      ? change.startLine + change.insertedLines
+      : span.end + delta;
+    return { start, end: Math.max(start, end) };
+  }
+
+  /** Apply all changes of one edit event; their ranges refer to the text before the event. */
+  static shiftSpans(spans: LineSpan[], changes: LineChange[]): LineSpan[] {
+    // Bottom-up, so each change's line numbers are still valid when applied
+    const ordered = [...changes].sort((a, b) => b.startLine - a.startLine);
+    return DecorationManager.mergeSpans(
+      spans
+        .map((span) => ordered.reduce<LineSpan | undefined>(
+          (moved, change) => moved && PinnedRegions.shiftSpan(moved, change),
+          span
+        ))
+        .filter((span): span is LineSpan => span !== undefined)
+    );
+  }
+
+  /** 1-based line label, e.g. `12` or `12–30`. */
+  static formatSpan(span: LineSpan): string {
+    return span.start === span.end ? `${span.start + 1}` : `${span.start + 1}–${span.end + 1}`;
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  private onEdit(e: vscode.TextDocumentChangeEvent): void {
+    const key = e.document.uri.toString();
+    const spans = this.pins[key];
+    if (!spans || e.contentChanges.length === 0) { return; }
+
+    const changes = e.contentChanges.map((change) => ({
+      startLine: change.range.start.line,
+      endLine: change.range.end.line,
+      insertedLines: change.text.split('\n').length - 1,
+    }));
+    const shifted = PinnedRegions.shiftSpans(spans, changes);
+    const moved = shifted.length !== spans.length
+      || shifted.some((span, i) => span.start !== spans[i].start || span.end !== spans[i].end);
+    if (moved) {
+      void this.update(e.document.uri, shifted);
+    }
+  }
+
+  private async update(uri: vscode.Uri, spans: LineSpan[]): Promise<void> {
+    const key = uri.toString();
+    if (spans.length > 0) {
+      this.pins[key] = spans;
+    } else {
+      delete this.pins[key];
+    }
+    this.changeEmitter.fire(uri);
+    await this.context.workspaceState.update(PINS_KEY, this.pins);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Sentence splitting for the `sentence` spotlight scope.
+ *
+ * Works on the text of one paragraph and returns character offsets, so the
+ * decoration layer can light a sub-line range instead of whole lines.
+ * Heuristics cover common prose cases: abbreviations, initials, decimals,
+ * ellipses, closing quotes/brackets, and Markdown block syntax.
+ */
+
+/** Half-open character span [start, end) within a paragraph's text. */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/** Lower-cased abbreviations (dots stripped) whose trailing period doesn't end a sentence. */
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'eg', 'ie', 'cf',
+  'al', 'approx', 'no', 'nos', 'vol', 'fig', 'figs', 'ch', 'sec', 'p', 'pp', 'ed', 'eds',
+  'inc', 'ltd', 'co', 'corp', 'dept', 'est', 'min', 'max', 'jan', 'feb', 'mar', 'apr',
+  'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+]);
+
+/** Lines that start a new Markdown block: heading, list item, blockquote, table row. */
+const BLOCK_START = /^ {0,3}(#{1,6}(\s|$)|[-*+]\s|\d+[.)]\s|>|\|)/;
+const HEADING = /^ {0,3}#{1,6}(\s|$)/;
+
+const TERMINATORS = '.!?…';
+/** Characters that may trail a terminator and still belong to the sentence. */
+const CLOSERS = '"\'”’»)]}*_`';
+
+/**
+ * Split paragraph text into sentences.
+ * Each span is trimmed of surrounding whitespace; spans never cross a Markdown block start.
+ */
+export function splitSentences(text: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let segmentStart = 0;
+  let offset = 0;
+  let previousWasHeading = false;
+
+  for (const line of text.split('\n')) {
+    const isHeading = HEADING.test(line);
+    if (offset > segmentStart && (BLOCK_START.test(line) || previousWasHeading)) {
+      scanSegment(text, segmentStart, offset - 1, spans);
+      segmentStart = offset;
+    }
+    previousWasHeading = isHeading;
+    offset += line.length + 1;
+  }
+  scanSegment(text, segmentStart, text.length, spans);
+
+  return spans;
+}
+
+/**
+ * Find the sentence containing `offset`. Whitespace after a sentence belongs
+ * to that sentence, so the one just finished stays lit until the next begins.
+ * Returns undefined if the text has no sentences before the offset.
+ */
+export function sentenceAt(text: string, offset: number): TextSpan | undefined {
+  let found: TextSpan | undefined;
+  for (const span of splitSentences(text)) {
+    if (span.start > offset) { break; }
+    found = span;
+  }
+  return found;
+}
+
+// ── Private ────────────────────────────────────────────────────
+
+function scanSegment(text: string, from: number, to: number, spans: TextSpan[]): void {
+  let start = skipWhitespace(text, from, to);
+
+  for (let i = start; i < to; i++) {
+    if (!TERMINATORS.includes(text[i])) { continue; }
+
+    let end = i;
+    while (end < to && TERMINATORS.includes(text[end])) { end++; }
+    while (end < to && CLOSERS.includes(text[end])) { end++; }
+
+    // Terminator inside a token (3.14, example.com, ?query) — not a boundary
+    if (end < to && !/\s/.test(text[end])) {
+      i = end - 1;
+      continue;
+    }
+
+    const run = text.slice(i, end);
+    if (!/[!?]/.test(run) && !isSentenceEnd(text, start, i, end, to)) {
+      i = end - 1;
+      continue;
+    }
+
+    spans.push({ start, end });
+    start = skipWhitespace(text, end, to);
+    i = start - 1;
+  }
+
+  let end = to;
+  while (end > start && /\s/.test(text[end - 1])) { end--; }
+  if (end > start) {
+    spans.push({ start, end });
+  }
+}
+
+/** Decide whether a period/ellipsis at `at` closes the sentence begun at `start`. */
+function isSentenceEnd(text: string, start: number, at: number, end: number, to: number): boolean {
+  const before = text.slice(start, at);
+
+  // Ordered-list marker such as "1." at the start of the segment
+  if (/^\d+$/.test(before)) { return false; }
+
+  const word = /([\p{L}.]+)$/u.exec(before)?.[1] ?? '';
+  // Single initial ("J. R. R. Tolkien") or known abbreviation ("e.g.", "Dr.")
+  if (/^\p{Lu}$/u.test(word)) { return false; }
+  if (ABBREVIATIONS.has(word.replace(/\./g, '').toLowerCase())) { return false; }
+
+  // Continuation in lower case ("wait... what") is the same sentence
+  const next = skipWhitespace(text, end, to);
+  if (next < to && /\p{Ll}/u.test(text[next])) { return false; }
+
+  return true;
+}
+
+function skipWhitespace(text: string, from: number, to: number): number {
+  let i = from;
+  while (i < to && /\s/.test(text[i])) { i++; }
+  return i;
+}
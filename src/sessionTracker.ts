@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+
+/** Summary of one focus session, as stored in the history. */
+export interface SessionRecord {
+  /** ISO timestamp of entering focus mode. */
+  start: string;
+  /** ISO timestamp of exiting focus mode. */
+  end: string;
+  durationMs: number;
+  preset?: string;
+  linesAdded: number;
+  linesRemoved: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+  /** Workspace-relative paths of the documents edited. */
+  files: string[];
+  /** Runs of edits with no pause longer than BURST_GAP_MS. */
+  bursts: number;
+  longestBurstMs: number;
+}
+
+/** A pause longer than this ends a keystroke burst. */
+const BURST_GAP_MS = 2000;
+/** Document schemes that count as the user's own editing (not output channels, etc.). */
+const TRACKED_SCHEMES = new Set(['file', 'untitled', 'vscode-notebook-cell']);
+/** Lines kept on each side of the cursor (or last change) to see what the next change removes. */
+const WINDOW_CONTEXT_LINES = 50;
+/** Selections spanning more lines than this are not copied whole; only the cursor's surroundings are. */
+const MAX_WINDOW_LINES = 2000;
+
+const WORD = /[\p{L}\p{N}_'’-]+/gu;
+const WORD_CHAR = /[\p{L}\p{N}_'’-]/u;
+
+/** Whole lines of a document copied before the next change, to see what it removes. */
+interface TextWindow {
+  /** Document version the text was read at. */
+  version: number;
+  /** Offset of the window's first character in the document. */
+  offset: number;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+/**
+ * Collects editing statistics while focus mode is active.
+ *
+ * Words are counted around each change (including the word fragments it
+ * touches), so typing "hello" letter by letter counts as one word added, not five.
+ *
+ * A change event no longer has the text it replaced, so each document keeps a
+ * window of whole lines around its cursors and last change. Copying that
+ * window costs the same in a 50,000-line file as in a short one. A change
+ * reaching outside the window (e.g. deleting a huge selection) counts its
+ * lines exactly but only the words it inserted.
+ */
+export class SessionTracker {
+  private startedAt = 0;
+  private preset: string | undefined;
+  private listener: vscode.Disposable | undefined;
+  /** Text around the cursors of each document, to see what a change removed. */
+  private windows = new Map<string, TextWindow>();
+  private files = new Set<string>();
+  private linesAdded = 0;
+  private linesRemoved = 0;
+  private wordsAdded = 0;
+  private wordsRemoved = 0;
+  private bursts = 0;
+  private burstStart = 0;
+  private lastEditAt = 0;
+  private longestBurstMs = 0;
+
+  /** Begin a new session, discarding any previous counts. */
+  start(preset?: string): void {
+    this.stop();
+    this.reset();
+    this.startedAt = Date.now();
+    this.preset = preset;
+
+    for (const editor of vscode.window.visibleTextEditors) {
+      this.capture(editor.document, editor.selections);
+    }
+    this.listener = vscode.Disposable.from(
+      vscode.window.onDidChangeTextEditorSelection((e) => this.capture(e.textEditor.document, e.selections)),
+      vscode.workspace.onDidCloseTextDocument((doc) => this.windows.delete(doc.uri.toString())),
+      vscode.workspace.onDidChangeTextDocument((e) => this.onChange(e))
+    );
+  }
+
+  /** End the session and return its summary, or undefined if none was running. */
+  stop(): SessionRecord | undefined {
+    if (!this.listener) { return undefined; }
+    this.listener.dispose();
+    this.listener = undefined;
+    this.windows.clear();
+
+    const end = Date.now();
+    return {
+      start: new Date(this.startedAt).toISOString(),
+      end: new Date(end).toISOString(),
+      durationMs: end - this.startedAt,
+      preset: this.preset,
+      linesAdded: this.linesAdded,
+      linesRemoved: this.linesRemoved,
+      wordsAdded: this.wordsAdded,
+      wordsRemoved: this.wordsRemoved,
+      files: [...this.files].sort(),
+      bursts: this.bursts,
+      longestBurstMs: this.longestBurstMs,
+    };
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /** Count words (runs of letters, digits, apostrophes, hyphens, underscores). */
+  static countWords(text: string): number {
+    return text.match(WORD)?.length ?? 0;
+  }
+
+  /**
+   * Net change in word count when `removed` is replaced by `inserted`.
+   *
+   * @param left  Word characters immediately before the change.
+   * @param right Word characters immediately after the change.
+   */
+  static wordDelta(left: string, removed: string, inserted: string, right: string): number {
+    return SessionTracker.countWords(left + inserted + right) - SessionTracker.countWords(left + removed + right);
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  private onChange(e: vscode.TextDocumentChangeEvent): void {
+    const doc = e.document;
+    if (e.contentChanges.length === 0 || !TRACKED_SCHEMES.has(doc.uri.scheme)) { return; }
+
+    // The window holds the text before this event only if no other edit came in between
+    const window = this.windows.get(doc.uri.toString());
+    const before = window?.version === doc.version - 1 ? window : undefined;
+
+    // All changes in one event are relative to the text before the event
+    for (const change of e.contentChanges) {
+      this.linesAdded += countNewlines(change.text);
+      this.linesRemoved += change.range.end.line - change.range.start.line;
+
+      const start = change.rangeOffset - (before?.offset ?? 0);
+      const end = start + change.rangeLength;
+      let delta: number;
+      if (before && start >= 0 && end <= before.text.length) {
+        // Windows are whole lines, so they hold the whole words around the change
+        const removed = before.text.slice(start, end);
+        const left = wordRunBefore(before.text, start);
+        const right = wordRunAfter(before.text, end);
+        delta = SessionTracker.wordDelta(left, removed, change.text, right);
+      } else {
+        delta = SessionTracker.countWords(change.text);
+      }
+      if (delta > 0) { this.wordsAdded += delta; }
+      if (delta < 0) { this.wordsRemoved -= delta; }
+    }
+
+    this.capture(doc, e.contentChanges.map((change) => change.range), true);
+    this.files.add(vscode.workspace.asRelativePath(doc.uri));
+    this.recordKeystroke(Date.now());
+  }
+
+  private recordKeystroke(now: number): void {
+    if (now - this.lastEditAt > BURST_GAP_MS) {
+      this.bursts++;
+      this.burstStart = now;
+    }
+    this.lastEditAt = now;
+    this.longestBurstMs = Math.max(this.longestBurstMs, now - this.burstStart);
+  }
+
+  /**
+   * Copy the lines around the given ranges (selections, or the ranges just
+   * changed), unless the current window already covers them.
+   * @param force Recopy even if covered (after a change, the window is stale).
+   */
+  private capture(doc: vscode.TextDocument, ranges: readonly vscode.Range[], force = false): void {
+    if (ranges.length === 0 || !TRACKED_SCHEMES.has(doc.uri.scheme)) { return; }
+
+    let first = Math.min(...ranges.map((range) => range.start.line));
+    let last = Math.max(...ranges.map((range) => range.end.line));
+    if (last - first > MAX_WINDOW_LINES) {
+      first = last = ranges[0].start.line;
+    }
+
+    const key = doc.uri.toString();
+    const current = this.windows.get(key);
+    // Keep a line of margin, so a change joining the window's edge line with the next still fits
+    const covered = current?.version === doc.version && current.startLine < first && last < current.endLine;
+    if (covered && !force) { return; }
+
+    const range = doc.validateRange(new vscode.Range(
+      Math.max(0, first - WINDOW_CONTEXT_LINES), 0,
+      last + WINDOW_CONTEXT_LINES + 1, 0
+    ));
+    this.windows.set(key, {
+      version: doc.version,
+      offset: doc.offsetAt(range.start),
+      startLine: range.start.line,
+      endLine: range.end.line,
+      text: doc.getText(range),
+    });
+  }
+
+  private reset(): void {
+    this.windows.clear();
+    this.files.clear();
+    this.linesAdded = 0;
+    this.linesRemoved = 0;
+    this.wordsAdded = 0;
+    this.wordsRemoved = 0;
+    this.bursts = 0;
+    this.burstStart = 0;
+    this.lastEditAt = 0;
+    this.longestBurstMs = 0;
+  }
+}
+
+function countNewlines(text: string): number {
+  let n = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) { n++; }
+  return n;
+}
+
+function wordRunBefore(text: string, offset: number): string {
+  let i = offset;
+  while (i > 0 && WORD_CHAR.test(text[i - 1])) { i--; }
+  return text.slice(i, offset);
+}
+
+function wordRunAfter(text: string, offset: number): string {
+  let i = offset;
+  while (i < text.length && WORD_CHAR.test(text[i])) { i++; }
+  return text.slice(offset, i);
+}
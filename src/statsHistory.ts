@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { SessionRecord } from './sessionTracker';
+
+/** Totals for one day or week of focus sessions. */
+export interface StatsTotals {
+  /** Local date (`YYYY-MM-DD`) of the day, or of the Monday starting the week. */
+  period: string;
+  sessions: number;
+  focusMs: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+const HISTORY_FILE = 'sessions.jsonl';
+
+const CSV_COLUMNS: (keyof SessionRecord)[] = [
+  'start', 'end', 'durationMs', 'preset', 'linesAdded', 'linesRemoved',
+  'wordsAdded', 'wordsRemoved', 'files', 'bursts', 'longestBurstMs',
+];
+
+/**
+ * Session history, one JSON record per line in the extension's global storage.
+ * The file stays local to the machine; export it to share.
+ */
+export class StatsHistory {
+  /** Rewrites in progress when the storage isn't on disk, so they apply one at a time. */
+  private rewrites: Promise<void> = Promise.resolve();
+
+  constructor(private storageUri: vscode.Uri) {}
+
+  /**
+   * Append a finished session to the history. On disk this is a real append,
+   * so sessions ending at once (in this window or another) keep both lines.
+   * `workspace.fs` has no append; elsewhere the file is rewritten, one
+   * rewrite at a time.
+   */
+  async append(record: SessionRecord): Promise<void> {
+    const line = JSON.stringify(record) + '\n';
+    if (this.storageUri.scheme === 'file') {
+      await fs.promises.mkdir(this.storageUri.fsPath, { recursive: true });
+      await fs.promises.appendFile(this.historyUri.fsPath, line);
+      return;
+    }
+
+    const rewrite = this.rewrites.then(async () => {
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      const existing = await this.read();
+      await vscode.workspace.fs.writeFile(this.historyUri, new TextEncoder().encode(existing + line));
+    });
+    this.rewrites = rewrite.catch(() => undefined);
+    return rewrite;
+  }
+
+  /** All recorded sessions, oldest first. Malformed lines are skipped. */
+  async load(): Promise<SessionRecord[]> {
+    const records: SessionRecord[] = [];
+    for (const line of (await this.read()).split('\n')) {
+      if (!line.trim()) { continue; }
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // skip a line truncated by a crash mid-write
+      }
+    }
+    return records;
+  }
+
+  /** Ask for a destination and write the history as JSON or CSV. */
+  async export(format: 'json' | 'csv'): Promise<void> {
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(folder, `focus-sessions.${format}`),
+      filters: format === 'json' ? { JSON: ['json'] } : { CSV: ['csv'] },
+    });
+    if (!target) { return; }
+
+    const records = await this.load();
+    const content = format === 'json' ? JSON.stringify(records, null, 2) + '\n' : StatsHistory.toCsv(records);
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+    vscode.window.showInformationMessage(`Focus Mode: Exported ${records.length} sessions to ${target.fsPath}.`);
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * Sum sessions per local day or per week (starting Monday), newest first.
+   * Sessions are attributed to the period they started in.
+   */
+  static aggregate(records: SessionRecord[], period: 'day' | 'week'): StatsTotals[] {
+    const totals = new Map<string, StatsTotals>();
+    for (const record of records) {
+      const key = StatsHistory.periodKey(new Date(record.start), period);
+      let total = totals.get(key);
+      if (!total) {
+        total = { period: key, sessions: 0, focusMs: 0, wordsAdded: 0, wordsRemoved: 0, linesAdded: 0, linesRemoved: 0 };
+        totals.set(key, total);
+      }
+      total.sessions++;
+      total.focusMs += record.durationMs;
+      total.wordsAdded += record.wordsAdded;
+      total.wordsRemoved += record.wordsRemoved;
+      total.linesAdded += record.linesAdded;
+      total.linesRemoved += record.linesRemoved;
+    }
+    return [...totals.values()].sort((a, b) => b.period.localeCompare(a.period));
+  }
+
+  /** Local `YYYY-MM-DD` of the day, or of the Monday of its week. */
+  static periodKey(date: Date, period: 'day' | 'week'): string {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (period === 'week') {
+      day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+    }
+    const mm = String(day.getMonth() + 1).padStart(2, '0');
+    const dd = String(day.getDate()).padStart(2, '0');
+    return `${day.getFullYear()}-${mm}-${dd}`;
+  }
+
+  /** One-line summary shown when a session ends. */
+  static summarize(record: SessionRecord): string {
+    const files = record.files.length;
+    return [
+      StatsHistory.formatDuration(record.durationMs),
+      `+${record.wordsAdded}/−${record.wordsRemoved} words`,
+      `+${record.linesAdded}/−${record.linesRemoved} lines`,
+      `${files} file${files === 1 ? '' : 's'}`,
+      `${record.bursts} burst${record.bursts === 1 ? '' : 's'}`,
+    ].join(' · ');
+  }
+
+  /** Focus time as `1h 05m` or `25m`. */
+  static formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60_000);
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${String(minutes % 60).padStart(2, '0')}m` : `${minutes}m`;
+  }
+
+  /** Render records as CSV with a header row; `files` becomes a `;`-separated list. */
+  static toCsv(records: SessionRecord[]): string {
+    const escape = (value: unknown): string => {
+      const text = Array.isArray(value) ? value.join(';') : String(value ?? '');
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows = records.map((record) => CSV_COLUMNS.map((column) => escape(record[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  private get historyUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, HISTORY_FILE);
+  }
+
+  private async read(): Promise<string> {
+    try {
+      return new TextDecoder().decode(await vscode.workspace.fs.readFile(this.historyUri));
+    } catch {
+      return '';
+    }
+  }
+}
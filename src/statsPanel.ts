@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { StatsHistory, StatsTotals } from './statsHistory';
+
+/** Days and weeks shown in the tables; older sessions stay in the export. */
+const DAYS_SHOWN = 14;
+const WEEKS_SHOWN = 8;
+
+/**
+ * Webview showing daily and weekly focus totals, with JSON/CSV export.
+ * One panel per window; `show` reveals and refreshes it if already open.
+ */
+export class StatsPanel {
+  private static current: StatsPanel | undefined;
+
+  private constructor(private panel: vscode.WebviewPanel, private history: StatsHistory) {
+    panel.onDidDispose(() => { StatsPanel.current = undefined; });
+    panel.webview.onDidReceiveMessage((message: { command?: string }) => {
+      const format = message.command === 'exportJson' ? 'json' : message.command === 'exportCsv' ? 'csv' : undefined;
+      if (format) {
+        this.history.export(format).catch((err) => {
+          vscode.window.showErrorMessage(`Focus Mode: Could not export sessions. ${err}`);
+        });
+      }
+    });
+  }
+
+  static async show(history: StatsHistory): Promise<void> {
+    if (!StatsPanel.current) {
+      const panel = vscode.window.createWebviewPanel(
+        'focusMode.stats',
+        'Focus Stats',
+        vscode.ViewColumn.Active,
+        { enableScripts: true }
+      );
+      StatsPanel.current = new StatsPanel(panel, history);
+    }
+    StatsPanel.current.panel.reveal();
+    await StatsPanel.current.render();
+  }
+
+  private async render(): Promise<void> {
+    const records = await this.history.load();
+    this.panel.webview.html = StatsPanel.renderHtml(
+      StatsHistory.aggregate(records, 'day').slice(0, DAYS_SHOWN),
+      StatsHistory.aggregate(records, 'week').slice(0, WEEKS_SHOWN),
+      this.panel.webview.cspSource,
+      nonce()
+    );
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /** Build the panel's HTML. Only the inline script carrying `nonce` may run. */
+  static renderHtml(daily: StatsTotals[], weekly: StatsTotals[], cspSource: string, nonce: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 1.5em; }
+  table { border-collapse: collapse; margin-bottom: 2em; }
+  th, td { padding: 0.3em 1em; text-align: right; border-bottom: 1px solid var(--vscode-panel-border); }
+  th:first-child, td:first-child { text-align: left; }
+  button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 0.4em 1em; margin-right: 0.5em; cursor: pointer; }
+  button:hover { background: var(--vscode-button-hoverBackground); }
+  .empty { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<h1>Focus Stats</h1>
+<h2>Daily</h2>
+${StatsPanel.renderTable(daily, 'Day')}
+<h2>Weekly</h2>
+${StatsPanel.renderTable(weekly, 'Week of')}
+<button id="exportJson">Export JSON</button><button id="exportCsv">Export CSV</button>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  for (const id of ['exportJson', 'exportCsv']) {
+    document.getElementById(id).addEventListener('click', () => vscode.postMessage({ command: id }));
+  }
+</script>
+</body>
+</html>`;
+  }
+
+  private static renderTable(totals: StatsTotals[], periodLabel: string): string {
+    if (totals.length === 0) {
+      return '<p class="empty">No focus sessions recorded yet.</p>';
+    }
+    const rows = totals.map((t) =>
+      `<tr><td>${t.period}</td><td>${StatsHistory.formatDuration(t.focusMs)}</td><td>${t.sessions}</td>` +
+      `<td>+${t.wordsAdded} / −${t.wordsRemoved}</td><td>+${t.linesAdded} / −${t.linesRemoved}</td></tr>`
+    );
+    return `<table>
+<tr><th>${periodLabel}</th><th>Focus time</th><th>Sessions</th><th>Words</th><th>Lines</th></tr>
+${rows.join('\n')}
+</table>`;
+  }
+}
+
+function nonce(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let text = '';
+  for (let i = 0; i < 32; i++) {
+    text += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return text;
+}
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+
+/** Minimal symbol shape shared by DocumentSymbol trees and flat SymbolInformation lists. */
+export interface SymbolNode {
+  kind: vscode.SymbolKind;
+  range: vscode.Range;
+  children?: SymbolNode[];
+}
+
+/** Inclusive 0-based line span. */
+export interface LineSpan {
+  start: number;
+  end: number;
+}
+
+/** Symbol kinds that represent "the thing being edited". */
+const SPOTLIGHT_KINDS = new Set<vscode.SymbolKind>([
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Constructor,
+  vscode.SymbolKind.Enum,
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Module,
+  vscode.SymbolKind.Namespace,
+  vscode.SymbolKind.Struct,
+]);
+
+/**
+ * Markdown headings are reported as `String` symbols whose range covers the
+ * section. Elsewhere `String` is a value (e.g. a JSON string property), so it
+ * only counts in these languages.
+ */
+const HEADING_LANGUAGES = new Set(['markdown']);
+
+/**
+ * Resolves the innermost function, class or section around the cursor
+ * for the `symbol` spotlight scope.
+ *
+ * Symbols come from the language's document symbol provider and are cached
+ * per document version, so repeated cursor moves don't re-query the provider.
+ * After an edit, the previous version's symbols stay in use until the new
+ * ones arrive, so the spotlight doesn't collapse to one line while typing.
+ */
+export class SymbolSpotlight {
+  private cache = new Map<string, { version: number; symbols: SymbolNode[] }>();
+  private pending = new Map<string, { version: number; request: Promise<void> }>();
+
+  /**
+   * Cached symbols of the document, possibly from an earlier version
+   * (see `isCurrent`), or undefined if they were never loaded.
+   */
+  peek(document: vscode.TextDocument): SymbolNode[] | undefined {
+    return this.cache.get(document.uri.toString())?.symbols;
+  }
+
+  /** Whether the cached symbols are those of the document's current version. */
+  isCurrent(document: vscode.TextDocument): boolean {
+    return this.cache.get(document.uri.toString())?.version === document.version;
+  }
+
+  /**
+   * Query the symbol provider for the document's current version.
+   * Concurrent calls for the same version share one request.
+   * Providers that fail or return nothing cache an empty list.
+   */
+  load(document: vscode.TextDocument): Promise<void> {
+    const key = document.uri.toString();
+    const version = document.version;
+    const inFlight = this.pending.get(key);
+    if (inFlight && inFlight.version === version) {
+      return inFlight.request;
+    }
+
+    const request = (async () => {
+      let symbols: SymbolNode[] = [];
+      try {
+        const result = await vscode.commands.executeCommand<
+          (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+        >('vscode.executeDocumentSymbolProvider', document.uri);
+        symbols = (result ?? []).map((s) =>
+          'location' in s ? { kind: s.kind, range: s.location.range } : s
+        );
+      } catch {
+        // No provider or provider error — spotlight falls back to lines
+      }
+      this.cache.set(key, { version, symbols });
+      if (this.pending.get(key)?.version === version) {
+        this.pending.delete(key);
+      }
+    })();
+
+    this.pending.set(key, { version, request });
+    return request;
+  }
+
+  /** Forget cached symbols (e.g. when the session ends). */
+  clear(): void {
+    this.cache.clear();
+    this.pending.clear();
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * Find the line span of the innermost spotlight-worthy symbol containing `line`.
+   * Works on nested DocumentSymbol trees and on flat lists (smallest match wins).
+   * Returns undefined if no such symbol encloses the line.
+   * @param languageId Document language; Markdown heading sections count as symbols.
+   */
+  static findEnclosing(symbols: SymbolNode[], line: number, languageId?: string): LineSpan | undefined {
+    const headings = languageId !== undefined && HEADING_LANGUAGES.has(languageId);
+    let best: LineSpan | undefined;
+
+    const visit = (nodes: SymbolNode[]): void => {
+      for (const node of nodes) {
+        if (line < node.range.start.line || line > node.range.end.line) { continue; }
+
+        if (SPOTLIGHT_KINDS.has(node.kind) || (headings && node.kind === vscode.SymbolKind.String)) {
+          const span = { start: node.range.start.line, end: node.range.end.line };
+          if (!best || span.end - span.start <= best.end - best.start) {
+            best = span;
+          }
+        }
+        if (node.children) {
+          visit(node.children);
+        }
+      }
+    };
+
+    visit(symbols);
+    return best;
+  }
+}
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AutoFocus } from '../../autoFocus';
+import { FocusLevel, FocusMode, FocusStateChangeEvent } from '../../focusMode';
+
+/** In-memory workspaceState. */
+function memento(): vscode.Memento {
+  const values = new Map<string, unknown>();
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string, fallback?: unknown) => (values.has(key) ? values.get(key) : fallback),
+    update: async (key: string, value: unknown) => {
+      if (value === undefined) { values.delete(key); } else { values.set(key, value); }
+    },
+  } as vscode.Memento;
+}
+
+/** FocusMode stand-in that switches state at once and reports it. */
+function stubFocusMode() {
+  const emitter = new vscode.EventEmitter<FocusStateChangeEvent>();
+  const focus = {
+    active: false,
+    activeLevel: 'full' as FocusLevel,
+    onDidChangeState: emitter.event,
+    async enter(preset?: string, level: FocusLevel = 'full') {
+      focus.active = true;
+      focus.activeLevel = level;
+      emitter.fire({ state: 'active', level, preset });
+    },
+    async exit() {
+      focus.active = false;
+      emitter.fire({ state: 'inactive', level: focus.activeLevel, preset: undefined });
+    },
+  };
+  return focus;
+}
+
+suite('AutoFocus', () => {
+  suite('findRule', () => {
+    let doc: vscode.TextDocument;
+
+    suiteSetup(async () => {
+      doc = await vscode.workspace.openTextDocument({ content: 'Some prose.', language: 'plaintext' });
+    });
+
+    test('matches by language', () => {
+      const rule = { language: 'plaintext', preset: 'writing' };
+      assert.strictEqual(AutoFocus.findRule([{ language: 'markdown' }, rule], doc), rule);
+    });
+
+    test('requires both pattern and language when both are set', () => {
+      assert.strictEqual(AutoFocus.findRule([{ pattern: '**/*.md', language: 'plaintext' }], doc), undefined);
+    });
+
+    test('ignores rules with neither pattern nor language', () => {
+      assert.strictEqual(AutoFocus.findRule([{ preset: 'writing' }], doc), undefined);
+    });
+  });
+
+  suite('rules', () => {
+    let markdown: vscode.TextDocument;
+    let plaintext: vscode.TextDocument;
+    let focus: ReturnType<typeof stubFocusMode>;
+    let auto: AutoFocus;
+
+    /** Make `doc` the active editor and apply the rules to it right away. */
+    async function switchTo(doc: vscode.TextDocument): Promise<void> {
+      await vscode.window.showTextDocument(doc);
+      await auto.resume();
+    }
+
+    suiteSetup(async () => {
+      markdown = await vscode.workspace.openTextDocument({ content: '# Draft', language: 'markdown' });
+      plaintext = await vscode.workspace.openTextDocument({ content: 'Notes.', language: 'plaintext' });
+      await vscode.workspace.getConfiguration('focusMode')
+        .update('autoRules', [{ language: 'markdown' }], vscode.ConfigurationTarget.Global);
+    });
+
+    suiteTeardown(async () => {
+      await vscode.workspace.getConfiguration('focusMode')
+        .update('autoRules', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    setup(() => {
+      focus = stubFocusMode();
+      const context = { workspaceState: memento() } as unknown as vscode.ExtensionContext;
+      auto = new AutoFocus(context, focus as unknown as FocusMode);
+    });
+
+    teardown(() => {
+      auto.dispose();
+    });
+
+    test('enters for a matching document and leaves for one that doesn\'t match', async () => {
+      await switchTo(markdown);
+      assert.strictEqual(focus.active, true);
+      await switchTo(plaintext);
+      assert.strictEqual(focus.active, false);
+    });
+
+    test('a session entered by hand is kept', async () => {
+      await switchTo(plaintext);
+      await focus.enter();
+      await switchTo(plaintext);
+      assert.strictEqual(focus.active, true);
+    });
+
+    test('a session re-entered by hand after leaving a rule\'s session is kept', async () => {
+      await switchTo(markdown);
+      // Left and entered again by hand, without switching editors
+      await focus.exit();
+      await focus.enter();
+
+      await switchTo(plaintext);
+      assert.strictEqual(focus.active, true);
+    });
+  });
+});
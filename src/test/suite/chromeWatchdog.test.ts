@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { ChromeState, ChromeWatchdog } from '../../chromeWatchdog';
+import { getConfig } from '../../config';
+
+function state(overrides: Partial<ChromeState> = {}): ChromeState {
+  return {
+    sideBarVisible: false,
+    panelVisible: false,
+    auxiliaryBarVisible: false,
+    activePanel: undefined,
+    inDebugMode: false,
+    ...overrides,
+  };
+}
+
+suite('ChromeWatchdog', () => {
+  suite('guardedParts', () => {
+    test('guards every part focus mode closes', () => {
+      assert.deepStrictEqual(ChromeWatchdog.guardedParts(getConfig()), ['sideBar', 'panel', 'auxiliaryBar']);
+    });
+
+    test('leaves parts kept open by the config alone', () => {
+      const config = { ...getConfig(), hideSideBar: false, hidePanel: false };
+      assert.deepStrictEqual(ChromeWatchdog.guardedParts(config), ['auxiliaryBar']);
+    });
+  });
+
+  suite('partsToClose', () => {
+    const all = ['sideBar', 'panel', 'auxiliaryBar'] as const;
+
+    test('closes visible guarded parts', () => {
+      const visible = state({ sideBarVisible: true, panelVisible: true });
+      assert.deepStrictEqual(ChromeWatchdog.partsToClose(visible, [...all], []), ['sideBar', 'panel']);
+    });
+
+    test('ignores parts that are not guarded', () => {
+      const visible = state({ sideBarVisible: true });
+      assert.deepStrictEqual(ChromeWatchdog.partsToClose(visible, ['panel'], []), []);
+    });
+
+    test('honors whole-part allowances', () => {
+      const visible = state({ auxiliaryBarVisible: true, panelVisible: true });
+      assert.deepStrictEqual(ChromeWatchdog.partsToClose(visible, [...all], ['auxiliaryBar']), ['panel']);
+    });
+  });
+
+  suite('isAllowed', () => {
+    const repl = 'workbench.panel.repl';
+
+    test('allows the debug console only during a debug session', () => {
+      const allow = ['debugConsole' as const];
+      assert.strictEqual(ChromeWatchdog.isAllowed('panel', state({ activePanel: repl, inDebugMode: true }), allow), true);
+      assert.strictEqual(ChromeWatchdog.isAllowed('panel', state({ activePanel: repl }), allow), false);
+    });
+
+    test('view allowances apply only to the view they name', () => {
+      const debugging = state({ activePanel: 'terminal', inDebugMode: true });
+      assert.strictEqual(ChromeWatchdog.isAllowed('panel', debugging, ['debugConsole']), false);
+      assert.strictEqual(ChromeWatchdog.isAllowed('panel', debugging, ['terminal']), true);
+    });
+
+    test('view allowances do not cover other parts', () => {
+      assert.strictEqual(ChromeWatchdog.isAllowed('sideBar', state({ activePanel: 'terminal' }), ['terminal']), false);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getConfig, parseEnterOptions } from '../../config';
+
+/** Write a `focusMode` user setting; `undefined` resets it. */
+async function setSetting(key: string, value: unknown): Promise<void> {
+  await vscode.workspace.getConfiguration('focusMode').update(key, value, vscode.ConfigurationTarget.Global);
+}
+
+suite('getConfig', () => {
+  suiteSetup(async () => {
+    await setSetting('scope', 'paragraph');
+    await setSetting('opacity', 0.4);
+    await setSetting('presets', { writing: { scope: 'sentence', opacity: 0.3 } });
+  });
+
+  suiteTeardown(async () => {
+    for (const key of ['scope', 'opacity', 'presets']) {
+      await setSetting(key, undefined);
+    }
+  });
+
+  test('without a preset the settings apply', () => {
+    const config = getConfig();
+    assert.strictEqual(config.scope, 'paragraph');
+    assert.strictEqual(config.opacity, 0.4);
+  });
+
+  test('a preset takes precedence over the settings', () => {
+    const config = getConfig('writing');
+    assert.strictEqual(config.scope, 'sentence');
+    assert.strictEqual(config.opacity, 0.3);
+  });
+
+  test('invocation values take precedence over the preset', () => {
+    const config = getConfig('writing', undefined, { scope: 'symbol' });
+    assert.strictEqual(config.scope, 'symbol');
+    assert.strictEqual(config.opacity, 0.3);
+  });
+
+  test('an unknown preset name is ignored', () => {
+    assert.strictEqual(getConfig('editing').scope, 'paragraph');
+    assert.strictEqual(getConfig('toString').scope, 'paragraph');
+  });
+});
+
+suite('parseEnterOptions', () => {
+  test('a string is a preset name', () => {
+    assert.deepStrictEqual(parseEnterOptions('writing'), { preset: 'writing', overrides: {} });
+  });
+
+  test('no argument means no preset and no overrides', () => {
+    assert.deepStrictEqual(parseEnterOptions(undefined), { overrides: {} });
+  });
+
+  test('an object carries a preset and config fields', () => {
+    assert.deepStrictEqual(
+      parseEnterOptions({ preset: 'writing', opacity: 0.3, typewriter: true, scope: 'paragraph' }),
+      { preset: 'writing', overrides: { opacity: 0.3, typewriter: true, scope: 'paragraph' } }
+    );
+  });
+
+  test('unknown keys and wrongly typed values are dropped', () => {
+    assert.deepStrictEqual(
+      parseEnterOptions({ bogus: 1, opacity: 'dim', fullScreen: 'yes', watchdogAllow: 'terminal' }),
+      { preset: undefined, overrides: {} }
+    );
+  });
+
+  test('unknown enum values and non-finite numbers are dropped', () => {
+    assert.deepStrictEqual(
+      parseEnterOptions({ scope: 'page', dimStyle: 'blur', opacity: NaN, contextLines: Infinity, fade: 'gradient' }).overrides,
+      { fade: 'gradient' }
+    );
+    assert.deepStrictEqual(parseEnterOptions({ watchdogAllow: ['terminal', 'explorer'] }).overrides, {});
+  });
+
+  test('list fields accept arrays', () => {
+    assert.deepStrictEqual(
+      parseEnterOptions({ watchdogAllow: ['terminal'] }).overrides,
+      { watchdogAllow: ['terminal'] }
+    );
+  });
+});
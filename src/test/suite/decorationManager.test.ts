@@ -1,11 +1,12 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import { FocusModeConfig, getConfig } from '../../config';
 import { DecorationManager } from '../../decorationManager';
 
 suite('DecorationManager', () => {
   suite('computeDimmedRanges', () => {
     test('cursor in middle dims top and bottom', () => {
-      const ranges = DecorationManager.computeDimmedRanges([5], 10);
+      const ranges = DecorationManager.computeDimmedRanges([{ start: 5, end: 5 }], 10);
       assert.strictEqual(ranges.length, 2);
       // Top range: lines 0–4
       assert.strictEqual(ranges[0].start.line, 0);
@@ -16,21 +17,21 @@ suite('DecorationManager', () => {
     });
 
     test('cursor at first line dims only below', () => {
-      const ranges = DecorationManager.computeDimmedRanges([0], 10);
+      const ranges = DecorationManager.computeDimmedRanges([{ start: 0, end: 0 }], 10);
       assert.strictEqual(ranges.length, 1);
       assert.strictEqual(ranges[0].start.line, 1);
       assert.strictEqual(ranges[0].end.line, 9);
     });
 
     test('cursor at last line dims only above', () => {
-      const ranges = DecorationManager.computeDimmedRanges([9], 10);
+      const ranges = DecorationManager.computeDimmedRanges([{ start: 9, end: 9 }], 10);
       assert.strictEqual(ranges.length, 1);
       assert.strictEqual(ranges[0].start.line, 0);
       assert.strictEqual(ranges[0].end.line, 8);
     });
 
     test('multi-cursor dims gaps between cursors', () => {
-      const ranges = DecorationManager.computeDimmedRanges([2, 5, 8], 10);
+      const ranges = DecorationManager.computeDimmedRanges([{ start: 2, end: 2 }, { start: 5, end: 5 }, { start: 8, end: 8 }], 10);
       // Expected: 0–1, 3–4, 6–7, 9
       assert.strictEqual(ranges.length, 4);
       assert.strictEqual(ranges[0].start.line, 0);
@@ -44,7 +45,7 @@ suite('DecorationManager', () => {
     });
 
     test('single-line file with cursor on it returns no dimmed ranges', () => {
-      const ranges = DecorationManager.computeDimmedRanges([0], 1);
+      const ranges = DecorationManager.computeDimmedRanges([{ start: 0, end: 0 }], 1);
       assert.strictEqual(ranges.length, 0);
     });
 
@@ -53,8 +54,8 @@ suite('DecorationManager', () => {
       assert.strictEqual(ranges.length, 0);
     });
 
-    test('adjacent cursors produce no gap between them', () => {
-      const ranges = DecorationManager.computeDimmedRanges([3, 4, 5], 10);
+    test('adjacent spans produce no gap between them', () => {
+      const ranges = DecorationManager.computeDimmedRanges([{ start: 3, end: 3 }, { start: 4, end: 5 }], 10);
       // Expected: 0–2, 6–9
       assert.strictEqual(ranges.length, 2);
       assert.strictEqual(ranges[0].start.line, 0);
@@ -62,5 +63,411 @@ suite('DecorationManager', () => {
       assert.strictEqual(ranges[1].start.line, 6);
       assert.strictEqual(ranges[1].end.line, 9);
     });
+
+    test('multi-line span stays lit as a whole', () => {
+      const ranges = DecorationManager.computeDimmedRanges([{ start: 2, end: 6 }], 10);
+      assert.deepStrictEqual(ranges.map((r) => [r.start.line, r.end.line]), [[0, 1], [7, 9]]);
+    });
+
+    test('unsorted and overlapping spans are merged', () => {
+      const ranges = DecorationManager.computeDimmedRanges(
+        [{ start: 7, end: 8 }, { start: 1, end: 4 }, { start: 3, end: 5 }],
+        10
+      );
+      assert.deepStrictEqual(ranges.map((r) => [r.start.line, r.end.line]), [[0, 0], [6, 6], [9, 9]]);
+    });
+
+    test('a span nested in another adds no gap', () => {
+      const ranges = DecorationManager.computeDimmedRanges([{ start: 2, end: 8 }, { start: 4, end: 5 }], 10);
+      assert.deepStrictEqual(ranges.map((r) => [r.start.line, r.end.line]), [[0, 1], [9, 9]]);
+    });
+  });
+
+  suite('getSelectionSpans', () => {
+    test('empty selections light the cursor line', () => {
+      const spans = DecorationManager.getSelectionSpans([
+        new vscode.Selection(8, 2, 8, 2),
+        new vscode.Selection(3, 0, 3, 0),
+      ]);
+      assert.deepStrictEqual(spans, [{ start: 3, end: 3 }, { start: 8, end: 8 }]);
+    });
+
+    test('a selection lights every line it covers, whichever way it was made', () => {
+      assert.deepStrictEqual(
+        DecorationManager.getSelectionSpans([new vscode.Selection(4, 1, 12, 5)]),
+        [{ start: 4, end: 12 }]
+      );
+      assert.deepStrictEqual(
+        DecorationManager.getSelectionSpans([new vscode.Selection(12, 5, 4, 1)]),
+        [{ start: 4, end: 12 }]
+      );
+    });
+
+    test('a selection ending at the start of a line excludes that line', () => {
+      const spans = DecorationManager.getSelectionSpans([new vscode.Selection(2, 0, 5, 0)]);
+      assert.deepStrictEqual(spans, [{ start: 2, end: 4 }]);
+    });
+
+    test('selections and cursors are merged', () => {
+      const spans = DecorationManager.getSelectionSpans([
+        new vscode.Selection(6, 0, 9, 3),
+        new vscode.Selection(10, 4, 10, 4),
+        new vscode.Selection(1, 0, 1, 0),
+        new vscode.Selection(7, 2, 7, 2),
+      ]);
+      assert.deepStrictEqual(spans, [{ start: 1, end: 1 }, { start: 6, end: 10 }]);
+    });
+  });
+
+  suite('expandSpotlight', () => {
+    // Lines 3 and 7 are blank: paragraphs are 0–2, 4–6, 8–9
+    const blank = new Set([3, 7]);
+    const isBlank = (line: number) => blank.has(line);
+    /** One-line cursor spans. */
+    const at = (...lines: number[]) => lines.map((line) => ({ start: line, end: line }));
+
+    test('line scope keeps only cursor lines', () => {
+      const spans = DecorationManager.expandSpotlight(at(1, 5), 10, 'line', 0, isBlank);
+      assert.deepStrictEqual(spans, at(1, 5));
+    });
+
+    test('context scope adds radius lines clamped to the document', () => {
+      const spans = DecorationManager.expandSpotlight(at(0, 9), 10, 'context', 2, isBlank);
+      assert.deepStrictEqual(spans, [{ start: 0, end: 2 }, { start: 7, end: 9 }]);
+    });
+
+    test('paragraph scope lights the run of non-blank lines', () => {
+      const spans = DecorationManager.expandSpotlight(at(5), 10, 'paragraph', 0, isBlank);
+      assert.deepStrictEqual(spans, [{ start: 4, end: 6 }]);
+    });
+
+    test('paragraph scope on a blank line lights only that line', () => {
+      const spans = DecorationManager.expandSpotlight(at(3), 10, 'paragraph', 0, isBlank);
+      assert.deepStrictEqual(spans, at(3));
+    });
+
+    test('paragraph scope with radius extends past the paragraph', () => {
+      const spans = DecorationManager.expandSpotlight(at(9), 10, 'paragraph', 1, isBlank);
+      assert.deepStrictEqual(spans, [{ start: 7, end: 9 }]);
+    });
+
+    test('paragraph scope extends a selection by the paragraphs at its ends', () => {
+      const spans = DecorationManager.expandSpotlight([{ start: 1, end: 5 }], 10, 'paragraph', 0, isBlank);
+      assert.deepStrictEqual(spans, [{ start: 0, end: 6 }]);
+    });
+
+    test('paragraph scans stop at the edges of the painted window', () => {
+      const spans = DecorationManager.expandSpotlight(at(500), 1000, 'paragraph', 0, () => false, undefined, { start: 400, end: 600 });
+      assert.deepStrictEqual(spans, [{ start: 400, end: 600 }]);
+    });
+
+    test('overlapping spotlights are merged without duplicates', () => {
+      const spans = DecorationManager.expandSpotlight(at(4, 6), 10, 'context', 1, isBlank);
+      assert.deepStrictEqual(spans, [{ start: 3, end: 7 }]);
+    });
+
+    test('symbol scope lights the enclosing span, else the cursor line', () => {
+      const enclosing = (line: number) => (line >= 2 && line <= 5 ? { start: 2, end: 5 } : undefined);
+      const spans = DecorationManager.expandSpotlight(at(3, 8), 10, 'symbol', 0, isBlank, enclosing);
+      assert.deepStrictEqual(spans, [{ start: 2, end: 5 }, { start: 8, end: 8 }]);
+    });
+  });
+
+  suite('computePartialDimmedRanges', () => {
+    const lineLength = () => 20;
+
+    test('dims text before and after a single-line sentence', () => {
+      const ranges = DecorationManager.computePartialDimmedRanges(
+        [new vscode.Range(2, 5, 2, 12)],
+        lineLength
+      );
+      assert.strictEqual(ranges.length, 2);
+      assert.deepStrictEqual([ranges[0].start.character, ranges[0].end.character], [0, 5]);
+      assert.deepStrictEqual([ranges[1].start.character, ranges[1].end.character], [12, 20]);
+    });
+
+    test('multi-line sentence dims only the outer ends', () => {
+      const ranges = DecorationManager.computePartialDimmedRanges(
+        [new vscode.Range(1, 8, 3, 4)],
+        lineLength
+      );
+      // Line 1: 0–8, line 2 fully lit, line 3: 4–20
+      assert.strictEqual(ranges.length, 2);
+      assert.deepStrictEqual([ranges[0].start.line, ranges[0].end.character], [1, 8]);
+      assert.deepStrictEqual([ranges[1].start.line, ranges[1].start.character], [3, 4]);
+    });
+
+    test('two sentences on one line leave the gap between them dimmed', () => {
+      const ranges = DecorationManager.computePartialDimmedRanges(
+        [new vscode.Range(0, 12, 0, 20), new vscode.Range(0, 0, 0, 5)],
+        lineLength
+      );
+      assert.strictEqual(ranges.length, 1);
+      assert.deepStrictEqual([ranges[0].start.character, ranges[0].end.character], [5, 12]);
+    });
+  });
+
+  suite('computeBandOpacities', () => {
+    test('single band uses the configured opacity', () => {
+      assert.deepStrictEqual(DecorationManager.computeBandOpacities(0.5, 1), [0.5]);
+    });
+
+    test('bands step evenly down to the configured opacity', () => {
+      assert.deepStrictEqual(DecorationManager.computeBandOpacities(0.2, 4), [0.8, 0.6, 0.4, 0.2]);
+    });
+  });
+
+  suite('computeFadeBands', () => {
+    test('single band returns dimmed ranges unchanged', () => {
+      const dimmed = DecorationManager.computeDimmedRanges([{ start: 5, end: 5 }], 10);
+      const bands = DecorationManager.computeFadeBands(dimmed, 10, 1, 3);
+      assert.deepStrictEqual(bands, [dimmed]);
+    });
+
+    test('lines are banded by distance from the spotlight', () => {
+      // Spotlight on line 10 of 20, 3 bands of 2 lines each
+      const dimmed = DecorationManager.computeDimmedRanges([{ start: 10, end: 10 }], 20);
+      const bands = DecorationManager.computeFadeBands(dimmed, 20, 3, 2);
+      const spans = bands.map((band) => band.map((r) => [r.start.line, r.end.line]));
+      assert.deepStrictEqual(spans, [
+        [[8, 9], [11, 12]],
+        [[6, 7], [13, 14]],
+        [[0, 5], [15, 19]],
+      ]);
+    });
+
+    test('gap between two spotlights fades from both sides', () => {
+      const dimmed = DecorationManager.computeDimmedRanges([{ start: 0, end: 0 }, { start: 6, end: 6 }], 7);
+      const bands = DecorationManager.computeFadeBands(dimmed, 7, 2, 2);
+      const spans = bands.map((band) => band.map((r) => [r.start.line, r.end.line]));
+      // Lines 1–5: distances 1, 2, 3, 2, 1
+      assert.deepStrictEqual(spans, [
+        [[1, 2], [4, 5]],
+        [[3, 3]],
+      ]);
+    });
+
+    test('no spotlight puts every line in the farthest band', () => {
+      const dimmed = DecorationManager.computeDimmedRanges([], 5);
+      const bands = DecorationManager.computeFadeBands(dimmed, 5, 3, 1);
+      assert.strictEqual(bands[0].length, 0);
+      assert.strictEqual(bands[1].length, 0);
+      assert.deepStrictEqual([bands[2][0].start.line, bands[2][0].end.line], [0, 4]);
+    });
+  });
+
+  suite('computeDimStyles', () => {
+    test('opacity style fades without recoloring', () => {
+      const styles = DecorationManager.computeDimStyles('opacity', 0.4, 1, false);
+      assert.deepStrictEqual(styles.bands, [{ opacity: '0.4', isWholeLine: true }]);
+      assert.deepStrictEqual(styles.partial, { opacity: '0.4' });
+    });
+
+    test('color style recolors at full opacity', () => {
+      const styles = DecorationManager.computeDimStyles('color', 0.4, 1, false);
+      assert.strictEqual(styles.bands.length, 1);
+      assert.strictEqual(styles.bands[0].opacity, '1');
+      assert.strictEqual((styles.bands[0].color as vscode.ThemeColor).id, 'focusMode.dimmedForeground');
+    });
+
+    test('color style still fades by band in gradient mode', () => {
+      const styles = DecorationManager.computeDimStyles('color', 0.4, 2, false);
+      assert.deepStrictEqual(styles.bands.map((band) => band.opacity), ['0.7', '0.4']);
+    });
+
+    test('desaturate style uses the theme foreground and fades', () => {
+      const styles = DecorationManager.computeDimStyles('desaturate', 0.4, 1, false);
+      assert.strictEqual(styles.bands[0].opacity, '0.4');
+      assert.strictEqual((styles.bands[0].color as vscode.ThemeColor).id, 'editor.foreground');
+    });
+
+    test('band style leaves text alone', () => {
+      const styles = DecorationManager.computeDimStyles('band', 0.4, 3, false);
+      assert.deepStrictEqual(styles.bands, [{ isWholeLine: true }]);
+      assert.deepStrictEqual(styles.partial, {});
+    });
+
+    test('high contrast limits how far text fades', () => {
+      const styles = DecorationManager.computeDimStyles('opacity', 0.2, 1, true);
+      assert.strictEqual(styles.bands[0].opacity, '0.7');
+      const mild = DecorationManager.computeDimStyles('opacity', 0.8, 1, true);
+      assert.strictEqual(mild.bands[0].opacity, '0.8');
+    });
+  });
+
+  suite('isHighContrast', () => {
+    test('matches both high-contrast kinds', () => {
+      assert.strictEqual(DecorationManager.isHighContrast(vscode.ColorThemeKind.HighContrast), true);
+      assert.strictEqual(DecorationManager.isHighContrast(vscode.ColorThemeKind.HighContrastLight), true);
+      assert.strictEqual(DecorationManager.isHighContrast(vscode.ColorThemeKind.Dark), false);
+    });
+  });
+
+  suite('paintWindow', () => {
+    test('short documents are painted whole', () => {
+      assert.deepStrictEqual(
+        DecorationManager.paintWindow({ start: 100, end: 140 }, undefined, 3000),
+        { start: 0, end: 2999 }
+      );
+    });
+
+    test('long documents are painted around the viewport', () => {
+      assert.deepStrictEqual(
+        DecorationManager.paintWindow({ start: 20_000, end: 20_040 }, undefined, 50_000),
+        { start: 19_700, end: 20_340 }
+      );
+      assert.deepStrictEqual(
+        DecorationManager.paintWindow({ start: 10, end: 50 }, undefined, 50_000),
+        { start: 0, end: 350 }
+      );
+    });
+
+    test('a small scroll keeps the painted window', () => {
+      const painted = { start: 19_700, end: 20_340 };
+      assert.deepStrictEqual(DecorationManager.paintWindow({ start: 20_100, end: 20_140 }, painted, 50_000), painted);
+    });
+
+    test('scrolling near the edge of the painted window moves it', () => {
+      const painted = { start: 19_700, end: 20_340 };
+      assert.deepStrictEqual(
+        DecorationManager.paintWindow({ start: 20_280, end: 20_320 }, painted, 50_000),
+        { start: 19_980, end: 20_620 }
+      );
+    });
+  });
+
+  suite('windowed fade bands', () => {
+    test('match the full computation inside the window', () => {
+      const dimmed = DecorationManager.computeDimmedRanges([{ start: 500, end: 502 }], 10_000);
+      const window = { start: 480, end: 530 };
+      const full = DecorationManager.computeFadeBands(dimmed, 10_000, 4, 3);
+      const windowed = DecorationManager.computeFadeBands(dimmed, 10_000, 4, 3, window);
+      const lines = (bands: vscode.Range[][]) => bands.map((band) => band.map((r) => [r.start.line, r.end.line]));
+      assert.deepStrictEqual(lines(windowed), lines(full.map((band) => DecorationManager.clipRanges(band, window))));
+    });
+
+    test('flat dimming is clipped to the window', () => {
+      const dimmed = DecorationManager.computeDimmedRanges([{ start: 500, end: 500 }], 10_000);
+      const [flat] = DecorationManager.computeFadeBands(dimmed, 10_000, 1, 3, { start: 450, end: 550 });
+      assert.deepStrictEqual(flat.map((r) => [r.start.line, r.end.line]), [[450, 499], [501, 550]]);
+    });
+  });
+
+  suite('updateDecorations on large documents', () => {
+    /**
+     * Editor over a document of `totalLines` lines with no blank line (one
+     * paragraph), counting `setDecorations` calls.
+     */
+    function stubEditor(totalLines: number) {
+      const line = { text: 'const value = compute(input);', isEmptyOrWhitespace: false };
+      let calls = 0;
+      const editor = {
+        document: {
+          uri: vscode.Uri.parse(`untitled:bench-${totalLines}`),
+          languageId: 'typescript',
+          version: 1,
+          lineCount: totalLines,
+          lineAt: () => line,
+        },
+        selections: [new vscode.Selection(0, 0, 0, 0)],
+        visibleRanges: [new vscode.Range(0, 0, 0, 0)],
+        setDecorations: () => { calls++; },
+      };
+      /**
+       * Put the cursor on `cursor`, scrolled into the middle of a 50-line viewport.
+       * With `select`, everything from the top of the document to the cursor is selected.
+       */
+      const moveTo = (cursor: number, select = false) => {
+        editor.selections = [new vscode.Selection(select ? 0 : cursor, 0, cursor, 5)];
+        editor.visibleRanges = [new vscode.Range(Math.max(0, cursor - 25), 0, Math.min(totalLines - 1, cursor + 25), 0)];
+      };
+      return { editor: editor as unknown as vscode.TextEditor, moveTo, calls: () => calls };
+    }
+
+    let manager: DecorationManager;
+
+    setup(() => {
+      manager = new DecorationManager({ ...getConfig(), scope: 'context', fade: 'gradient' });
+    });
+
+    teardown(() => {
+      manager.dispose();
+    });
+
+    /**
+     * Time of one repaint after a cursor move, as done on each keystroke:
+     * the average over the fastest of several batches, so a GC pause in one
+     * batch doesn't count.
+     */
+    function measure(totalLines: number, scope: FocusModeConfig['scope'], select: boolean): number {
+      const batches = 5;
+      const runs = 100;
+      const measured = new DecorationManager({ ...getConfig(), scope, fade: 'gradient' });
+      const { editor, moveTo } = stubEditor(totalLines);
+      const middle = Math.floor(totalLines / 2);
+      let fastest = Infinity;
+      try {
+        for (let batch = 0; batch < batches; batch++) {
+          const started = process.hrtime.bigint();
+          for (let i = 0; i < runs; i++) {
+            moveTo(middle + (i % 20), select);
+            measured.updateDecorations(editor);
+          }
+          fastest = Math.min(fastest, Number(process.hrtime.bigint() - started) / 1e6 / runs);
+        }
+        return fastest;
+      } finally {
+        measured.dispose();
+      }
+    }
+
+    const cases: [string, FocusModeConfig['scope'], boolean][] = [
+      ['for cursor moves', 'context', false],
+      ['in paragraph scope without blank lines', 'paragraph', false],
+      ['with half the document selected', 'line', true],
+    ];
+    for (const [name, scope, select] of cases) {
+      test(`latency stays flat as the document grows ${name}`, () => {
+        // Warm up both sizes first, so neither measurement includes compiling
+        measure(10_000, scope, select);
+        measure(1_000_000, scope, select);
+        const small = measure(10_000, scope, select);
+        const large = measure(1_000_000, scope, select);
+        // Generous bound for noisy machines: a per-line walk would be ~100x slower
+        assert.ok(
+          large < small * 5 + 0.05,
+          `1M lines took ${large.toFixed(3)} ms per update vs ${small.toFixed(3)} ms for 10k lines`
+        );
+      });
+    }
+
+    test('an unchanged repaint is skipped', () => {
+      const { editor, moveTo, calls } = stubEditor(1_000_000);
+      moveTo(500_000);
+      manager.updateDecorations(editor);
+      const painted = calls();
+      assert.ok(painted > 0);
+
+      manager.updateDecorations(editor);
+      assert.strictEqual(calls(), painted);
+
+      moveTo(500_001);
+      manager.updateDecorations(editor);
+      assert.ok(calls() > painted);
+    });
+  });
+
+  suite('toLineSpans', () => {
+    test('groups contiguous lines', () => {
+      assert.deepStrictEqual(DecorationManager.toLineSpans([2, 3, 4, 7, 9, 10]), [
+        { start: 2, end: 4 },
+        { start: 7, end: 7 },
+        { start: 9, end: 10 },
+      ]);
+    });
+
+    test('returns no spans for no lines', () => {
+      assert.deepStrictEqual(DecorationManager.toLineSpans([]), []);
+    });
   });
 });
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { DiffHunk, DiffReview } from '../../diffReview';
+
+suite('DiffReview', () => {
+  suite('computeHunks', () => {
+    test('identical texts have no hunks', () => {
+      assert.deepStrictEqual(DiffReview.computeHunks(['a', 'b', 'c'], ['a', 'b', 'c']), []);
+    });
+
+    test('a changed line is one hunk on both sides', () => {
+      assert.deepStrictEqual(DiffReview.computeHunks(['a', 'b', 'c'], ['a', 'B', 'c']), [
+        { originalStart: 1, originalCount: 1, modifiedStart: 1, modifiedCount: 1 },
+      ]);
+    });
+
+    test('insertions and deletions leave the other side empty', () => {
+      assert.deepStrictEqual(DiffReview.computeHunks(['a', 'c'], ['a', 'b1', 'b2', 'c']), [
+        { originalStart: 1, originalCount: 0, modifiedStart: 1, modifiedCount: 2 },
+      ]);
+      assert.deepStrictEqual(DiffReview.computeHunks(['a', 'b', 'c'], ['a', 'c']), [
+        { originalStart: 1, originalCount: 1, modifiedStart: 1, modifiedCount: 0 },
+      ]);
+    });
+
+    test('unchanged lines separate hunks', () => {
+      const original = ['one', 'two', 'three', 'four', 'five', 'six'];
+      const modified = ['zero', 'one', 'two', 'THREE', 'four', 'six'];
+      assert.deepStrictEqual(DiffReview.computeHunks(original, modified), [
+        { originalStart: 0, originalCount: 0, modifiedStart: 0, modifiedCount: 1 },
+        { originalStart: 2, originalCount: 1, modifiedStart: 3, modifiedCount: 1 },
+        { originalStart: 4, originalCount: 1, modifiedStart: 5, modifiedCount: 0 },
+      ]);
+    });
+
+    test('matches lines that moved past an insertion', () => {
+      const original = ['x', 'a', 'b', 'c', 'y'];
+      const modified = ['x', 'new', 'a', 'b', 'c', 'y', 'end'];
+      assert.deepStrictEqual(DiffReview.computeHunks(original, modified), [
+        { originalStart: 1, originalCount: 0, modifiedStart: 1, modifiedCount: 1 },
+        { originalStart: 5, originalCount: 0, modifiedStart: 6, modifiedCount: 1 },
+      ]);
+    });
+
+    test('hunks rebuild the modified text from the original', () => {
+      const original = 'the quick brown fox jumps over the lazy dog again and again'.split(' ');
+      const modified = 'a quick red fox leaps over the dog again and once more again'.split(' ');
+      const rebuilt: string[] = [];
+      let next = 0;
+      for (const hunk of DiffReview.computeHunks(original, modified)) {
+        rebuilt.push(...original.slice(next, hunk.originalStart));
+        rebuilt.push(...modified.slice(hunk.modifiedStart, hunk.modifiedStart + hunk.modifiedCount));
+        next = hunk.originalStart + hunk.originalCount;
+      }
+      rebuilt.push(...original.slice(next));
+      assert.deepStrictEqual(rebuilt, modified);
+    });
+
+    test('completely different texts are one hunk', () => {
+      assert.deepStrictEqual(DiffReview.computeHunks(['a', 'b'], ['c', 'd', 'e']), [
+        { originalStart: 0, originalCount: 2, modifiedStart: 0, modifiedCount: 3 },
+      ]);
+    });
+  });
+
+  suite('hunkSpan', () => {
+    const hunk: DiffHunk = { originalStart: 4, originalCount: 0, modifiedStart: 6, modifiedCount: 3 };
+
+    test('covers the hunk lines on a side', () => {
+      assert.deepStrictEqual(DiffReview.hunkSpan(hunk, 'modified', 20), { start: 6, end: 8 });
+    });
+
+    test('a side without lines gets the line after the gap', () => {
+      assert.deepStrictEqual(DiffReview.hunkSpan(hunk, 'original', 20), { start: 4, end: 4 });
+    });
+
+    test('a gap at the end of the file gets the last line', () => {
+      const atEnd: DiffHunk = { originalStart: 10, originalCount: 2, modifiedStart: 10, modifiedCount: 0 };
+      assert.deepStrictEqual(DiffReview.hunkSpan(atEnd, 'modified', 10), { start: 9, end: 9 });
+    });
+  });
+
+  suite('hunkAt and hunkFrom', () => {
+    const hunks: DiffHunk[] = [
+      { originalStart: 2, originalCount: 2, modifiedStart: 2, modifiedCount: 1 },
+      { originalStart: 10, originalCount: 0, modifiedStart: 9, modifiedCount: 4 },
+    ];
+
+    test('hunkAt finds the hunk covering a line', () => {
+      assert.strictEqual(DiffReview.hunkAt(hunks, 'original', 3, 30), 0);
+      assert.strictEqual(DiffReview.hunkAt(hunks, 'modified', 12, 30), 1);
+      assert.strictEqual(DiffReview.hunkAt(hunks, 'original', 10, 30), 1);
+      assert.strictEqual(DiffReview.hunkAt(hunks, 'modified', 5, 30), -1);
+    });
+
+    test('hunkFrom picks the hunk at or after a line, else the last', () => {
+      assert.strictEqual(DiffReview.hunkFrom(hunks, 'modified', 0), 0);
+      assert.strictEqual(DiffReview.hunkFrom(hunks, 'modified', 2), 0);
+      assert.strictEqual(DiffReview.hunkFrom(hunks, 'modified', 3), 1);
+      assert.strictEqual(DiffReview.hunkFrom(hunks, 'modified', 25), 1);
+    });
+  });
+
+  suite('formatProgress', () => {
+    test('shows the position and reviewed count', () => {
+      assert.strictEqual(DiffReview.formatProgress(2, 12, 5), 'Hunk 3 of 12 · 5 reviewed');
+    });
+
+    test('says so once every hunk is reviewed', () => {
+      assert.strictEqual(DiffReview.formatProgress(0, 3, 3), 'Hunk 1 of 3 · all reviewed');
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import { FocusModeApi } from '../../api';
 
 suite('FocusMode Integration', () => {
   test('toggle command is registered', async () => {
@@ -31,6 +32,88 @@ suite('FocusMode Integration', () => {
     assert.ok(true, 'Toggle cycle completed without error');
   });
 
+  test('activate returns an API reporting state changes', async () => {
+    const extension = vscode.extensions.getExtension<FocusModeApi>('prabinpebam.vscode-focus-mode');
+    assert.ok(extension, 'extension should be installed');
+    const api = await extension.activate();
+
+    const doc = await vscode.workspace.openTextDocument({ content: 'a\nb\nc', language: 'plaintext' });
+    await vscode.window.showTextDocument(doc);
+
+    const states: string[] = [];
+    const listener = api.onDidChangeState((e) => states.push(e.state));
+    try {
+      await api.enter();
+      assert.strictEqual(api.isActive, true);
+      await api.exit();
+      assert.strictEqual(api.isActive, false);
+    } finally {
+      listener.dispose();
+    }
+
+    assert.deepStrictEqual(states, ['entering', 'active', 'exiting', 'inactive']);
+  });
+
+  test('every visible editor gets its own spotlight', async () => {
+    const extension = vscode.extensions.getExtension<FocusModeApi>('prabinpebam.vscode-focus-mode');
+    assert.ok(extension, 'extension should be installed');
+    const api = await extension.activate();
+
+    const left = await vscode.workspace.openTextDocument({ content: 'a\nb\nc', language: 'plaintext' });
+    const right = await vscode.workspace.openTextDocument({ content: 'x\ny\nz', language: 'plaintext' });
+    await vscode.window.showTextDocument(left, vscode.ViewColumn.One);
+    await vscode.window.showTextDocument(right, vscode.ViewColumn.Two);
+
+    const lit = new Set<vscode.TextDocument>();
+    const listener = api.onDidChangeSpotlight((e) => {
+      if (e.ranges.length > 0) { lit.add(e.editor.document); }
+    });
+    try {
+      await vscode.commands.executeCommand('focusMode.enter', { singleEditorOnly: false, fullScreen: false });
+      assert.ok(lit.has(left), 'inactive editor should keep a spotlight');
+      assert.ok(lit.has(right), 'active editor should have a spotlight');
+    } finally {
+      listener.dispose();
+      await api.exit();
+      await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    }
+  });
+
+  test('the session follows language-specific settings across editors', async () => {
+    const extension = vscode.extensions.getExtension<FocusModeApi>('prabinpebam.vscode-focus-mode');
+    assert.ok(extension, 'extension should be installed');
+    const api = await extension.activate();
+
+    // "[markdown]": { "focusMode.scope": "paragraph", "focusMode.typewriter": true }
+    const markdownConfig = vscode.workspace.getConfiguration('focusMode', { languageId: 'markdown' });
+    await markdownConfig.update('scope', 'paragraph', vscode.ConfigurationTarget.Global, true);
+    await markdownConfig.update('typewriter', true, vscode.ConfigurationTarget.Global, true);
+
+    const markdown = await vscode.workspace.openTextDocument({ content: '# Draft\n\nText.', language: 'markdown' });
+    const plaintext = await vscode.workspace.openTextDocument({ content: 'a\nb\nc', language: 'plaintext' });
+    try {
+      await vscode.window.showTextDocument(markdown);
+      await vscode.commands.executeCommand('focusMode.enter', { fullScreen: false });
+      assert.strictEqual(api.config.scope, 'paragraph');
+      assert.strictEqual(api.config.typewriter, true);
+
+      await vscode.window.showTextDocument(plaintext);
+      await delay(200);
+      assert.strictEqual(api.config.scope, 'line');
+      assert.strictEqual(api.config.typewriter, false);
+
+      await vscode.window.showTextDocument(markdown);
+      await delay(200);
+      assert.strictEqual(api.config.scope, 'paragraph');
+      assert.strictEqual(api.config.typewriter, true);
+    } finally {
+      await api.exit();
+      await markdownConfig.update('scope', undefined, vscode.ConfigurationTarget.Global, true);
+      await markdownConfig.update('typewriter', undefined, vscode.ConfigurationTarget.Global, true);
+      await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    }
+  });
+
   test('exit without enter is a no-op', async () => {
     // Should not throw
     await vscode.commands.executeCommand('focusMode.exit');
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { FocusSession } from '../../focusSession';
+
+suite('FocusSession', () => {
+  const plan = { minutes: 25, breakMinutes: 5, cycles: 3, warningMinutes: 1 };
+
+  suite('nextPhase', () => {
+    test('a focus block is followed by a break', () => {
+      assert.deepStrictEqual(FocusSession.nextPhase('work', 1, plan), { phase: 'break', round: 1 });
+    });
+
+    test('a break is followed by the next focus block', () => {
+      assert.deepStrictEqual(FocusSession.nextPhase('break', 1, plan), { phase: 'work', round: 2 });
+    });
+
+    test('the session ends after the last focus block', () => {
+      assert.strictEqual(FocusSession.nextPhase('work', 3, plan), undefined);
+    });
+
+    test('a session without breaks ends after one block', () => {
+      assert.strictEqual(FocusSession.nextPhase('work', 1, { ...plan, breakMinutes: 0 }), undefined);
+    });
+  });
+
+  suite('formatRemaining', () => {
+    test('formats minutes and seconds', () => {
+      assert.strictEqual(FocusSession.formatRemaining(25 * 60_000), '25:00');
+      assert.strictEqual(FocusSession.formatRemaining(65_000), '1:05');
+    });
+
+    test('rounds up partial seconds', () => {
+      assert.strictEqual(FocusSession.formatRemaining(59_001), '1:00');
+      assert.strictEqual(FocusSession.formatRemaining(1), '0:01');
+    });
+
+    test('adds hours from one hour', () => {
+      assert.strictEqual(FocusSession.formatRemaining(90 * 60_000), '1:30:00');
+    });
+
+    test('never goes negative', () => {
+      assert.strictEqual(FocusSession.formatRemaining(-5000), '0:00');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { NarrowRegion } from '../../narrowRegion';
+
+suite('NarrowRegion', () => {
+  suite('shiftRegion', () => {
+    const region = { start: 100, length: 50 };
+
+    test('a change before the region shifts it', () => {
+      assert.deepStrictEqual(
+        NarrowRegion.shiftRegion(region, { offset: 10, removed: 5, inserted: 20 }),
+        { start: 115, length: 50, overlaps: false }
+      );
+    });
+
+    test('an insertion right at its start shifts it', () => {
+      assert.deepStrictEqual(
+        NarrowRegion.shiftRegion(region, { offset: 100, removed: 0, inserted: 3 }),
+        { start: 103, length: 50, overlaps: false }
+      );
+    });
+
+    test('a change after the region, or right at its end, leaves it alone', () => {
+      assert.deepStrictEqual(
+        NarrowRegion.shiftRegion(region, { offset: 150, removed: 0, inserted: 8 }),
+        { start: 100, length: 50, overlaps: false }
+      );
+      assert.deepStrictEqual(
+        NarrowRegion.shiftRegion(region, { offset: 400, removed: 30, inserted: 0 }),
+        { start: 100, length: 50, overlaps: false }
+      );
+    });
+
+    test('a change inside the region is a conflict', () => {
+      assert.deepStrictEqual(
+        NarrowRegion.shiftRegion(region, { offset: 120, removed: 10, inserted: 2 }),
+        { start: 100, length: 42, overlaps: true }
+      );
+    });
+
+    test('a change across its edge grows the region to cover it', () => {
+      assert.deepStrictEqual(
+        NarrowRegion.shiftRegion(region, { offset: 90, removed: 20, inserted: 5 }),
+        { start: 90, length: 45, overlaps: true }
+      );
+      assert.deepStrictEqual(
+        NarrowRegion.shiftRegion(region, { offset: 140, removed: 20, inserted: 0 }),
+        { start: 100, length: 40, overlaps: true }
+      );
+    });
+  });
+
+  suite('changedSpan', () => {
+    test('covers only the text between the common prefix and suffix', () => {
+      assert.deepStrictEqual(
+        NarrowRegion.changedSpan('function draft() {}', 'function final() {}'),
+        { offset: 9, removed: 5, inserted: 5 }
+      );
+    });
+
+    test('an insertion removes nothing, a deletion inserts nothing', () => {
+      assert.deepStrictEqual(NarrowRegion.changedSpan('ab', 'aXb'), { offset: 1, removed: 0, inserted: 1 });
+      assert.deepStrictEqual(NarrowRegion.changedSpan('aXb', 'ab'), { offset: 1, removed: 1, inserted: 0 });
+    });
+
+    test('repeated text is not counted twice', () => {
+      assert.deepStrictEqual(NarrowRegion.changedSpan('aa', 'aaa'), { offset: 2, removed: 0, inserted: 1 });
+    });
+
+    test('unchanged text is an empty change', () => {
+      assert.deepStrictEqual(NarrowRegion.changedSpan('same', 'same'), { offset: 4, removed: 0, inserted: 0 });
+    });
+
+    test('does not split a surrogate pair', () => {
+      assert.deepStrictEqual(NarrowRegion.changedSpan('x\u{1F600}y', 'x\u{1F601}y'), { offset: 1, removed: 2, inserted: 2 });
+    });
+  });
+});
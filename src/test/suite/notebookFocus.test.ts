@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getConfig } from '../../config';
+import { DecorationManager } from '../../decorationManager';
+import { NotebookFocus } from '../../notebookFocus';
+
+const doc = (uri: string, lines: string[] = ['']) => ({
+  uri: vscode.Uri.parse(uri),
+  version: 1,
+  lineCount: lines.length,
+  lineAt: (line: number) => ({ text: lines[line], isEmptyOrWhitespace: lines[line].trim() === '' }),
+}) as unknown as vscode.TextDocument;
+
+const cellUri = (n: number) => `vscode-notebook-cell:/work/analysis.ipynb#cell${n}`;
+
+/** Editor stub recording what each decoration type was last set to. */
+function stubEditor(document: vscode.TextDocument) {
+  const painted = new Map<vscode.TextEditorDecorationType, readonly unknown[]>();
+  const editor = {
+    document,
+    selections: [new vscode.Selection(0, 0, 0, 0)],
+    visibleRanges: [new vscode.Range(0, 0, document.lineCount - 1, 0)],
+    setDecorations: (type: vscode.TextEditorDecorationType, ranges: readonly unknown[]) => painted.set(type, ranges),
+  } as unknown as vscode.TextEditor;
+  /** Lines covered by any decoration; in the default `opacity` style, the dimmed lines. */
+  const decoratedLines = () => new Set([...painted.values()].flatMap((ranges) =>
+    (ranges as vscode.Range[]).flatMap((range) =>
+      Array.from({ length: range.end.line - range.start.line + 1 }, (_, i) => range.start.line + i)
+    )
+  )).size;
+  return { editor, decoratedLines };
+}
+
+suite('NotebookFocus', () => {
+  suite('isCell', () => {
+    test('recognizes notebook cell documents', () => {
+      assert.strictEqual(NotebookFocus.isCell(doc('vscode-notebook-cell:/work/analysis.ipynb#W1sZmlsZQ%3D%3D')), true);
+    });
+
+    test('plain files are not cells', () => {
+      assert.strictEqual(NotebookFocus.isCell(doc('file:///work/analysis.py')), false);
+      assert.strictEqual(NotebookFocus.isCell(doc('untitled:Untitled-1')), false);
+    });
+  });
+
+  suite('activeCell', () => {
+    const cells = [doc(cellUri(0)), doc(cellUri(1)), doc(cellUri(2))];
+    const notebook = (start: number, end: number) => ({
+      selection: new vscode.NotebookRange(start, end),
+      notebook: { cellAt: (index: number) => ({ document: cells[index] }) },
+    }) as unknown as vscode.NotebookEditor;
+
+    test('the cell being edited wins', () => {
+      const editing = { document: cells[2] } as vscode.TextEditor;
+      assert.strictEqual(NotebookFocus.activeCell(editing, notebook(0, 1)), cells[2]);
+    });
+
+    test('otherwise the first selected cell of the notebook', () => {
+      const other = { document: doc('file:///work/notes.md') } as vscode.TextEditor;
+      assert.strictEqual(NotebookFocus.activeCell(other, notebook(1, 3)), cells[1]);
+      assert.strictEqual(NotebookFocus.activeCell(undefined, notebook(0, 1)), cells[0]);
+    });
+
+    test('none without a selected cell or a notebook', () => {
+      assert.strictEqual(NotebookFocus.activeCell(undefined, notebook(1, 1)), undefined);
+      assert.strictEqual(NotebookFocus.activeCell(undefined, undefined), undefined);
+    });
+  });
+
+  suite('cell decorations', () => {
+    const lines = ['import pandas as pd', '', 'df = pd.read_csv("data.csv")', 'df.head()'];
+    let manager: DecorationManager;
+
+    setup(() => {
+      manager = new DecorationManager({ ...getConfig(), dimStyle: 'opacity', fade: 'flat' });
+    });
+
+    teardown(() => {
+      manager.dispose();
+    });
+
+    test('the active cell is lit entirely', () => {
+      const { editor, decoratedLines } = stubEditor(doc(cellUri(0), lines));
+      const lit: (readonly vscode.Range[])[] = [];
+      manager.onDidChangeSpotlight((e) => lit.push(e.ranges));
+
+      manager.lightEditor(editor);
+      assert.strictEqual(decoratedLines(), 0);
+      assert.deepStrictEqual(lit.map((ranges) => ranges.map((r) => [r.start.line, r.end.line])), [[[0, 3]]]);
+    });
+
+    test('other cells are dimmed entirely', () => {
+      const { editor, decoratedLines } = stubEditor(doc(cellUri(1), lines));
+      manager.dimEditor(editor);
+      assert.strictEqual(decoratedLines(), lines.length);
+    });
+
+    test('a cell moving out of the spotlight is dimmed, and back in is lit', () => {
+      const { editor, decoratedLines } = stubEditor(doc(cellUri(2), lines));
+      manager.lightEditor(editor);
+      manager.dimEditor(editor);
+      assert.strictEqual(decoratedLines(), lines.length);
+      manager.lightEditor(editor);
+      assert.strictEqual(decoratedLines(), 0);
+    });
+  });
+});
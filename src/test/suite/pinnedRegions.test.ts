@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { PinnedRegions } from '../../pinnedRegions';
+
+suite('PinnedRegions', () => {
+  suite('shiftSpan', () => {
+    const pin = { start: 10, end: 14 };
+
+    test('a change below the pin leaves it alone', () => {
+      assert.deepStrictEqual(PinnedRegions.shiftSpan(pin, { startLine: 20, endLine: 25, insertedLines: 0 }), pin);
+    });
+
+    test('lines inserted above move it down', () => {
+      assert.deepStrictEqual(
+        PinnedRegions.shiftSpan(pin, { startLine: 3, endLine: 3, insertedLines: 2 }),
+        { start: 12, end: 16 }
+      );
+    });
+
+    test('lines removed above move it up', () => {
+      assert.deepStrictEqual(
+        PinnedRegions.shiftSpan(pin, { startLine: 2, endLine: 5, insertedLines: 0 }),
+        { start: 7, end: 11 }
+      );
+    });
+
+    test('lines inserted inside grow it', () => {
+      assert.deepStrictEqual(
+        PinnedRegions.shiftSpan(pin, { startLine: 12, endLine: 12, insertedLines: 3 }),
+        { start: 10, end: 17 }
+      );
+    });
+
+    test('a deletion over its bottom edge clips it', () => {
+      assert.deepStrictEqual(
+        PinnedRegions.shiftSpan(pin, { startLine: 13, endLine: 20, insertedLines: 0 }),
+        { start: 10, end: 13 }
+      );
+    });
+
+    test('a deletion over its top edge clips it', () => {
+      assert.deepStrictEqual(
+        PinnedRegions.shiftSpan(pin, { startLine: 8, endLine: 11, insertedLines: 0 }),
+        { start: 8, end: 11 }
+      );
+    });
+
+    test('deleting all of it drops it', () => {
+      assert.strictEqual(PinnedRegions.shiftSpan(pin, { startLine: 5, endLine: 30, insertedLines: 0 }), undefined);
+      assert.strictEqual(PinnedRegions.shiftSpan(pin, { startLine: 10, endLine: 15, insertedLines: 2 }), undefined);
+    });
+
+    test('a deletion ending on its last line keeps that line', () => {
+      assert.deepStrictEqual(
+        PinnedRegions.shiftSpan(pin, { startLine: 5, endLine: 14, insertedLines: 0 }),
+        { start: 5, end: 5 }
+      );
+    });
+  });
+
+  suite('shiftSpans', () => {
+    test('applies every change of an edit', () => {
+      const spans = PinnedRegions.shiftSpans(
+        [{ start: 2, end: 3 }, { start: 6, end: 7 }],
+        [
+          { startLine: 0, endLine: 0, insertedLines: 1 },
+          { startLine: 4, endLine: 5, insertedLines: 0 },
+        ]
+      );
+      assert.deepStrictEqual(spans, [{ start: 3, end: 4 }, { start: 6, end: 7 }]);
+    });
+
+    test('merges pins that meet', () => {
+      const spans = PinnedRegions.shiftSpans(
+        [{ start: 2, end: 3 }, { start: 6, end: 7 }],
+        [{ startLine: 4, endLine: 6, insertedLines: 0 }]
+      );
+      assert.deepStrictEqual(spans, [{ start: 2, end: 5 }]);
+    });
+
+    test('drops pins whose lines were deleted', () => {
+      const spans = PinnedRegions.shiftSpans(
+        [{ start: 2, end: 3 }, { start: 6, end: 7 }],
+        [{ startLine: 1, endLine: 4, insertedLines: 0 }]
+      );
+      assert.deepStrictEqual(spans, [{ start: 3, end: 4 }]);
+    });
+  });
+
+  suite('formatSpan', () => {
+    test('uses 1-based lines', () => {
+      assert.strictEqual(PinnedRegions.formatSpan({ start: 0, end: 0 }), '1');
+      assert.strictEqual(PinnedRegions.formatSpan({ start: 11, end: 29 }), '12–30');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { sentenceAt, splitSentences } from '../../sentenceSpotlight';
+
+/** Render spans back to their text for readable assertions. */
+function sentences(text: string): string[] {
+  return splitSentences(text).map((s) => text.slice(s.start, s.end));
+}
+
+suite('sentenceSpotlight', () => {
+  suite('splitSentences', () => {
+    test('splits on terminal punctuation', () => {
+      assert.deepStrictEqual(
+        sentences('One fish. Two fish! Red fish? Blue fish'),
+        ['One fish.', 'Two fish!', 'Red fish?', 'Blue fish']
+      );
+    });
+
+    test('keeps closing quotes and brackets with the sentence', () => {
+      assert.deepStrictEqual(
+        sentences('He said "stop." Then (quietly.) She left.'),
+        ['He said "stop."', 'Then (quietly.)', 'She left.']
+      );
+    });
+
+    test('does not split on abbreviations, initials or decimals', () => {
+      assert.deepStrictEqual(
+        sentences('Dr. Smith met J. R. R. Tolkien, e.g. at 3.30 pm. It rained.'),
+        ['Dr. Smith met J. R. R. Tolkien, e.g. at 3.30 pm.', 'It rained.']
+      );
+    });
+
+    test('treats a lower-case continuation after an ellipsis as the same sentence', () => {
+      assert.deepStrictEqual(
+        sentences('Wait... what happened? Nothing… Really.'),
+        ['Wait... what happened?', 'Nothing…', 'Really.']
+      );
+    });
+
+    test('joins wrapped lines within a sentence', () => {
+      assert.deepStrictEqual(
+        sentences('A sentence that\nwraps. Another.'),
+        ['A sentence that\nwraps.', 'Another.']
+      );
+    });
+
+    test('starts a new sentence at Markdown block starts', () => {
+      assert.deepStrictEqual(
+        sentences('# Heading\nIntro text\n- first item\n1. second item. More\n> quoted'),
+        ['# Heading', 'Intro text', '- first item', '1. second item.', 'More', '> quoted']
+      );
+    });
+
+    test('keeps Markdown emphasis closers with the sentence', () => {
+      assert.deepStrictEqual(
+        sentences('This is **bold.** Next one.'),
+        ['This is **bold.**', 'Next one.']
+      );
+    });
+  });
+
+  suite('sentenceAt', () => {
+    const text = 'First one. Second one.';
+
+    test('finds the sentence containing the offset', () => {
+      assert.deepStrictEqual(sentenceAt(text, 13), { start: 11, end: 22 });
+    });
+
+    test('whitespace after a sentence belongs to it', () => {
+      assert.deepStrictEqual(sentenceAt(text, 10), { start: 0, end: 10 });
+    });
+
+    test('returns undefined for empty text', () => {
+      assert.strictEqual(sentenceAt('', 0), undefined);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { SessionTracker } from '../../sessionTracker';
+
+suite('SessionTracker', () => {
+  suite('countWords', () => {
+    test('counts words across punctuation and whitespace', () => {
+      assert.strictEqual(SessionTracker.countWords('Hello, world!  It\'s a well-known fact.'), 6);
+    });
+
+    test('counts identifiers as words', () => {
+      assert.strictEqual(SessionTracker.countWords('const focus_mode = enter(2);'), 4);
+    });
+
+    test('returns 0 for blank text', () => {
+      assert.strictEqual(SessionTracker.countWords(' \n\t'), 0);
+    });
+  });
+
+  suite('wordDelta', () => {
+    test('extending a word adds nothing', () => {
+      assert.strictEqual(SessionTracker.wordDelta('hel', '', 'l', ''), 0);
+    });
+
+    test('starting a new word after a space adds one', () => {
+      assert.strictEqual(SessionTracker.wordDelta('', '', 'w', ''), 1);
+    });
+
+    test('splitting a word with a space adds one', () => {
+      assert.strictEqual(SessionTracker.wordDelta('hello', '', ' ', 'world'), 1);
+    });
+
+    test('joining two words removes one', () => {
+      assert.strictEqual(SessionTracker.wordDelta('hello', ' ', '', 'world'), -1);
+    });
+
+    test('replacing a phrase counts the net change', () => {
+      assert.strictEqual(SessionTracker.wordDelta('', 'one two three', 'four', ''), -2);
+    });
+  });
+});
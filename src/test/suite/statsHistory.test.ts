@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SessionRecord } from '../../sessionTracker';
+import { StatsHistory } from '../../statsHistory';
+
+function record(start: Date, minutes: number, words = 0): SessionRecord {
+  return {
+    start: start.toISOString(),
+    end: new Date(start.getTime() + minutes * 60_000).toISOString(),
+    durationMs: minutes * 60_000,
+    linesAdded: 1,
+    linesRemoved: 0,
+    wordsAdded: words,
+    wordsRemoved: 0,
+    files: ['README.md'],
+    bursts: 2,
+    longestBurstMs: 5000,
+  };
+}
+
+suite('StatsHistory', () => {
+  suite('append', () => {
+    let dir: string;
+
+    setup(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'focus-stats-'));
+    });
+
+    teardown(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('overlapping appends keep both sessions', async () => {
+      // The storage folder doesn't exist until the first session is recorded
+      const history = new StatsHistory(vscode.Uri.file(path.join(dir, 'storage')));
+      const first = record(new Date(2024, 2, 4, 9), 25);
+      const second = record(new Date(2024, 2, 4, 10), 50);
+
+      await Promise.all([history.append(first), history.append(second)]);
+      const loaded = await history.load();
+      assert.deepStrictEqual(loaded.map((r) => r.start).sort(), [first.start, second.start]);
+    });
+  });
+
+  suite('periodKey', () => {
+    test('uses the local calendar day', () => {
+      assert.strictEqual(StatsHistory.periodKey(new Date(2026, 2, 4, 23, 30), 'day'), '2026-03-04');
+    });
+
+    test('weeks start on Monday', () => {
+      // Wednesday 4 March 2026 and Sunday 8 March 2026 → Monday 2 March
+      assert.strictEqual(StatsHistory.periodKey(new Date(2026, 2, 4), 'week'), '2026-03-02');
+      assert.strictEqual(StatsHistory.periodKey(new Date(2026, 2, 8), 'week'), '2026-03-02');
+      assert.strictEqual(StatsHistory.periodKey(new Date(2026, 2, 9), 'week'), '2026-03-09');
+    });
+  });
+
+  suite('aggregate', () => {
+    const records = [
+      record(new Date(2026, 2, 2, 9), 25, 100),
+      record(new Date(2026, 2, 2, 14), 50, 40),
+      record(new Date(2026, 2, 9, 9), 30, 10),
+    ];
+
+    test('sums sessions per day, newest first', () => {
+      const daily = StatsHistory.aggregate(records, 'day');
+      assert.deepStrictEqual(daily.map((t) => [t.period, t.sessions, t.focusMs / 60_000, t.wordsAdded]), [
+        ['2026-03-09', 1, 30, 10],
+        ['2026-03-02', 2, 75, 140],
+      ]);
+    });
+
+    test('sums sessions per week', () => {
+      const weekly = StatsHistory.aggregate(records, 'week');
+      assert.deepStrictEqual(weekly.map((t) => [t.period, t.sessions]), [['2026-03-09', 1], ['2026-03-02', 2]]);
+    });
+  });
+
+  suite('toCsv', () => {
+    test('writes a header and joins file lists', () => {
+      const rec = { ...record(new Date(Date.UTC(2026, 2, 2, 9)), 25), files: ['a.md', 'b.md'] };
+      const [header, row] = StatsHistory.toCsv([rec]).trimEnd().split('\n');
+      assert.ok(header.startsWith('start,end,durationMs,preset,'));
+      assert.ok(row.includes(',a.md;b.md,'));
+    });
+
+    test('quotes values containing commas or quotes', () => {
+      const rec = { ...record(new Date(), 1), preset: 'deep, "quiet"' };
+      assert.ok(StatsHistory.toCsv([rec]).includes('"deep, ""quiet"""'));
+    });
+  });
+
+  suite('formatDuration', () => {
+    test('formats minutes and hours', () => {
+      assert.strictEqual(StatsHistory.formatDuration(25 * 60_000), '25m');
+      assert.strictEqual(StatsHistory.formatDuration(65 * 60_000), '1h 05m');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { SymbolNode, SymbolSpotlight } from '../../symbolSpotlight';
+
+function symbol(kind: vscode.SymbolKind, start: number, end: number, children?: SymbolNode[]): SymbolNode {
+  return { kind, range: new vscode.Range(start, 0, end, 0), children };
+}
+
+suite('SymbolSpotlight', () => {
+  suite('findEnclosing', () => {
+    // class 0–20 { method 2–8, field 10, method 12–18 { function 14–16 } }
+    const tree = [
+      symbol(vscode.SymbolKind.Class, 0, 20, [
+        symbol(vscode.SymbolKind.Method, 2, 8),
+        symbol(vscode.SymbolKind.Field, 10, 10),
+        symbol(vscode.SymbolKind.Method, 12, 18, [
+          symbol(vscode.SymbolKind.Function, 14, 16),
+        ]),
+      ]),
+    ];
+
+    test('returns the innermost enclosing symbol', () => {
+      assert.deepStrictEqual(SymbolSpotlight.findEnclosing(tree, 15), { start: 14, end: 16 });
+      assert.deepStrictEqual(SymbolSpotlight.findEnclosing(tree, 4), { start: 2, end: 8 });
+    });
+
+    test('skips non-container kinds such as fields', () => {
+      assert.deepStrictEqual(SymbolSpotlight.findEnclosing(tree, 10), { start: 0, end: 20 });
+    });
+
+    test('returns undefined outside every symbol', () => {
+      assert.strictEqual(SymbolSpotlight.findEnclosing(tree, 25), undefined);
+      assert.strictEqual(SymbolSpotlight.findEnclosing([], 0), undefined);
+    });
+
+    test('picks the smallest match in a flat list', () => {
+      const flat = [
+        symbol(vscode.SymbolKind.Class, 0, 20),
+        symbol(vscode.SymbolKind.Method, 5, 9),
+      ];
+      assert.deepStrictEqual(SymbolSpotlight.findEnclosing(flat, 6), { start: 5, end: 9 });
+    });
+
+    test('treats Markdown heading sections as symbols', () => {
+      const headings = [
+        symbol(vscode.SymbolKind.String, 0, 30, [
+          symbol(vscode.SymbolKind.String, 10, 19),
+        ]),
+      ];
+      assert.deepStrictEqual(SymbolSpotlight.findEnclosing(headings, 12, 'markdown'), { start: 10, end: 19 });
+    });
+
+    test('ignores string symbols outside Markdown', () => {
+      // A JSON object 0–20 with a string property on line 5
+      const json = [
+        symbol(vscode.SymbolKind.Module, 0, 20, [
+          symbol(vscode.SymbolKind.String, 5, 5),
+        ]),
+      ];
+      assert.deepStrictEqual(SymbolSpotlight.findEnclosing(json, 5, 'json'), { start: 0, end: 20 });
+      assert.deepStrictEqual(SymbolSpotlight.findEnclosing(json, 5), { start: 0, end: 20 });
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { TypewriterScroller } from '../../typewriterScroller';
+
+suite('TypewriterScroller', () => {
+  suite('computeTopLine', () => {
+    test('centers the active line', () => {
+      // 41 visible lines, cursor on 100 → 20 lines above it
+      assert.strictEqual(TypewriterScroller.computeTopLine(100, 41, 0.5), 80);
+    });
+
+    test('honors a position above center', () => {
+      assert.strictEqual(TypewriterScroller.computeTopLine(100, 41, 0.25), 90);
+    });
+
+    test('clamps at the first line', () => {
+      assert.strictEqual(TypewriterScroller.computeTopLine(5, 41, 0.5), 0);
+    });
+  });
+
+  suite('computeTopPadding', () => {
+    test('pads enough for line 0 to reach the position', () => {
+      assert.strictEqual(TypewriterScroller.computeTopPadding(41, 20, 0.5), 400);
+      assert.strictEqual(TypewriterScroller.computeTopPadding(41, 20, 0.25), 200);
+    });
+
+    test('never returns negative padding', () => {
+      assert.strictEqual(TypewriterScroller.computeTopPadding(0, 20, 0.5), 0);
+    });
+  });
+});
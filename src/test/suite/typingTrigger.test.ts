@@ -0,0 +1,192 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FocusLevel, FocusMode, FocusStateChangeEvent } from '../../focusMode';
+import { TypingTrigger } from '../../typingTrigger';
+
+/** FocusMode stand-in that switches state at once and reports it. */
+function stubFocusMode() {
+  const emitter = new vscode.EventEmitter<FocusStateChangeEvent>();
+  const focus = {
+    active: false,
+    activeLevel: 'full' as FocusLevel,
+    onDidChangeState: emitter.event,
+    async enter(preset?: string, level: FocusLevel = 'full') {
+      focus.active = true;
+      focus.activeLevel = level;
+      emitter.fire({ state: 'active', level, preset });
+    },
+    async exit() {
+      focus.active = false;
+      emitter.fire({ state: 'inactive', level: focus.activeLevel, preset: undefined });
+    },
+  };
+  return focus;
+}
+
+/**
+ * Replaces `Date.now` and `setTimeout` with a clock that only moves on `tick`.
+ * They are global, so keep it installed only for the length of a test.
+ */
+function fakeClock() {
+  const real = { now: Date.now, setTimeout: global.setTimeout, clearTimeout: global.clearTimeout };
+  const timers = new Map<number, { at: number; run: () => void }>();
+  let now = 1_000_000;
+  let nextId = 1;
+
+  Date.now = () => now;
+  global.setTimeout = ((run: () => void, ms = 0) => {
+    timers.set(nextId, { at: now + ms, run });
+    return nextId++;
+  }) as unknown as typeof setTimeout;
+  global.clearTimeout = ((id: number) => timers.delete(id)) as unknown as typeof clearTimeout;
+
+  return {
+    /** Move the clock forward, running the timers that fall due on the way. */
+    tick(ms: number) {
+      const until = now + ms;
+      for (;;) {
+        const due = [...timers].filter(([, timer]) => timer.at <= until).sort(([, a], [, b]) => a.at - b.at)[0];
+        if (!due) { break; }
+        timers.delete(due[0]);
+        now = due[1].at;
+        due[1].run();
+      }
+      now = until;
+    },
+    /** Put the real clock back; timers other code set meanwhile run on it. */
+    restore() {
+      Date.now = real.now;
+      global.setTimeout = real.setTimeout;
+      global.clearTimeout = real.clearTimeout;
+      for (const timer of timers.values()) {
+        setTimeout(timer.run, timer.at - now);
+      }
+    },
+  };
+}
+
+/** Let the trigger's async enter/exit settle. */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+suite('TypingTrigger', () => {
+  suite('nextStreakStart', () => {
+    test('a quick edit continues the streak', () => {
+      assert.strictEqual(TypingTrigger.nextStreakStart(1000, 5000, 5800), 1000);
+    });
+
+    test('a pause starts a new streak', () => {
+      assert.strictEqual(TypingTrigger.nextStreakStart(1000, 5000, 9000), 9000);
+    });
+
+    test('the first edit starts a streak', () => {
+      assert.strictEqual(TypingTrigger.nextStreakStart(0, 0, 100_000), 100_000);
+    });
+  });
+
+  suite('soft focus', () => {
+    let editor: vscode.TextEditor;
+    let focus: ReturnType<typeof stubFocusMode>;
+    let clock: ReturnType<typeof fakeClock>;
+    let trigger: TypingTrigger;
+
+    /** Edit the active document every half second for `ms`. */
+    async function type(ms: number): Promise<void> {
+      const edit = { document: editor.document, contentChanges: [{ text: 'a' }] } as unknown as vscode.TextDocumentChangeEvent;
+      for (let elapsed = 0; ; elapsed += 500) {
+        trigger.onEdit(edit);
+        await settle();
+        if (elapsed >= ms) { break; }
+        clock.tick(500);
+      }
+    }
+
+    function select(kind: vscode.TextEditorSelectionChangeKind): void {
+      trigger.onSelection({ textEditor: editor, selections: editor.selections, kind });
+    }
+
+    suiteSetup(async () => {
+      const doc = await vscode.workspace.openTextDocument({ content: 'Draft', language: 'plaintext' });
+      editor = await vscode.window.showTextDocument(doc);
+      const cfg = vscode.workspace.getConfiguration('focusMode');
+      await cfg.update('typingTrigger', true, vscode.ConfigurationTarget.Global);
+      await cfg.update('typingStreakSeconds', 2, vscode.ConfigurationTarget.Global);
+      await cfg.update('typingIdleSeconds', 5, vscode.ConfigurationTarget.Global);
+    });
+
+    suiteTeardown(async () => {
+      const cfg = vscode.workspace.getConfiguration('focusMode');
+      for (const key of ['typingTrigger', 'typingStreakSeconds', 'typingIdleSeconds']) {
+        await cfg.update(key, undefined, vscode.ConfigurationTarget.Global);
+      }
+    });
+
+    setup(() => {
+      clock = fakeClock();
+      focus = stubFocusMode();
+      trigger = new TypingTrigger(focus as unknown as FocusMode);
+    });
+
+    teardown(() => {
+      trigger.dispose();
+      clock.restore();
+    });
+
+    test('a typing streak enters soft focus', async () => {
+      await type(1500);
+      assert.strictEqual(focus.active, false);
+      await type(500);
+      assert.strictEqual(focus.active, true);
+      assert.strictEqual(focus.activeLevel, 'soft');
+    });
+
+    test('a pause breaks the streak', async () => {
+      await type(1500);
+      clock.tick(2000);
+      await type(1500);
+      assert.strictEqual(focus.active, false);
+    });
+
+    test('going idle exits, typing keeps it going', async () => {
+      await type(2000);
+      clock.tick(4000);
+      await type(0);
+      clock.tick(4000);
+      assert.strictEqual(focus.active, true);
+
+      clock.tick(1000);
+      await settle();
+      assert.strictEqual(focus.active, false);
+    });
+
+    test('moving the selection with the mouse exits', async () => {
+      await type(2000);
+      select(vscode.TextEditorSelectionChangeKind.Keyboard);
+      await settle();
+      assert.strictEqual(focus.active, true);
+
+      select(vscode.TextEditorSelectionChangeKind.Mouse);
+      await settle();
+      assert.strictEqual(focus.active, false);
+    });
+
+    test('a soft session entered by something else is left alone', async () => {
+      await focus.enter(undefined, 'soft');
+      await type(2000);
+      select(vscode.TextEditorSelectionChangeKind.Mouse);
+      clock.tick(10_000);
+      await settle();
+      assert.strictEqual(focus.active, true);
+    });
+
+    test('a session upgraded to full focus is left alone', async () => {
+      await type(2000);
+      await focus.enter(undefined, 'full');
+      select(vscode.TextEditorSelectionChangeKind.Mouse);
+      clock.tick(10_000);
+      await settle();
+      assert.strictEqual(focus.active, true);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { UIManager } from '../../uiManager';
+
+/** In-memory globalState. */
+function memento(): vscode.Memento {
+  const values = new Map<string, unknown>();
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string, fallback?: unknown) => (values.has(key) ? values.get(key) : fallback),
+    update: async (key: string, value: unknown) => {
+      if (value === undefined) { values.delete(key); } else { values.set(key, value); }
+    },
+  } as vscode.Memento;
+}
+
+const JOURNAL_KEY = 'focusMode.journal';
+
+/** User settings the tests write, as `[section, key]`; reset after each test. */
+const TOUCHED: [string, string][] = [
+  ['editor.minimap', 'enabled'],
+  ['workbench.editor', 'showTabs'],
+  ['breadcrumbs', 'enabled'],
+  ['workbench', 'statusBar.visible'],
+  ['workbench', 'activityBar.location'],
+  ['workbench', 'activityBar.visible'],
+];
+
+function setting<T>(section: string, key: string): T | undefined {
+  return vscode.workspace.getConfiguration(section).inspect<T>(key)?.globalValue;
+}
+
+async function setSetting(section: string, key: string, value: unknown): Promise<void> {
+  await vscode.workspace.getConfiguration(section).update(key, value, vscode.ConfigurationTarget.Global);
+}
+
+/** Whether this VS Code has `workbench.activityBar.location` (1.86+) rather than `activityBar.visible`. */
+function hasActivityBarLocation(): boolean {
+  return vscode.workspace.getConfiguration('workbench').inspect('activityBar.location')?.defaultValue !== undefined;
+}
+
+suite('UIManager', () => {
+  let globalState: vscode.Memento;
+  let ui: UIManager;
+
+  setup(() => {
+    globalState = memento();
+    ui = new UIManager(globalState);
+  });
+
+  teardown(async () => {
+    for (const [section, key] of TOUCHED) {
+      await setSetting(section, key, undefined);
+    }
+  });
+
+  suite('recoverFromJournal', () => {
+    test('without a journal there is nothing to replay', async () => {
+      assert.strictEqual(ui.hasJournal(), false);
+      assert.strictEqual(await ui.recoverFromJournal(), false);
+    });
+
+    test('restores the settings from before the killed session', async () => {
+      // What the session had written when it was killed
+      await setSetting('editor.minimap', 'enabled', false);
+      await setSetting('workbench.editor', 'showTabs', 'none');
+      await setSetting('breadcrumbs', 'enabled', false);
+      await globalState.update(JOURNAL_KEY, {
+        version: 2,
+        changed: { minimap: true, tabs: true, breadcrumbs: true },
+        settingsSnapshot: { minimapEnabled: true, showTabs: 'single', breadcrumbsEnabled: true },
+        visibilitySnapshot: {},
+      });
+
+      assert.strictEqual(ui.hasJournal(), true);
+      assert.strictEqual(await ui.recoverFromJournal(), true);
+      assert.strictEqual(setting('editor.minimap', 'enabled'), true);
+      assert.strictEqual(setting('workbench.editor', 'showTabs'), 'single');
+      assert.strictEqual(setting('breadcrumbs', 'enabled'), true);
+      assert.strictEqual(ui.hasJournal(), false);
+    });
+
+    test('a step journaled but never written is left alone', async () => {
+      // Killed after journaling the tabs step, before writing the setting
+      await setSetting('editor.minimap', 'enabled', false);
+      await setSetting('workbench.editor', 'showTabs', 'multiple');
+      await globalState.update(JOURNAL_KEY, {
+        version: 2,
+        changed: { minimap: true, tabs: true },
+        settingsSnapshot: { minimapEnabled: true, showTabs: 'multiple' },
+        visibilitySnapshot: {},
+      });
+
+      await ui.recoverFromJournal();
+      assert.strictEqual(setting('editor.minimap', 'enabled'), true);
+      assert.strictEqual(setting('workbench.editor', 'showTabs'), 'multiple');
+      assert.strictEqual(ui.hasJournal(), false);
+    });
+
+    test('settings the user changed since are kept', async () => {
+      // Focus mode wrote `none`; the user picked `single` before recovery ran
+      await setSetting('workbench.editor', 'showTabs', 'single');
+      await setSetting('breadcrumbs', 'enabled', false);
+      await globalState.update(JOURNAL_KEY, {
+        version: 2,
+        changed: { tabs: true, breadcrumbs: true },
+        settingsSnapshot: { showTabs: 'multiple', breadcrumbsEnabled: true },
+        visibilitySnapshot: {},
+      });
+
+      await ui.recoverFromJournal();
+      assert.strictEqual(setting('workbench.editor', 'showTabs'), 'single');
+      assert.strictEqual(setting('breadcrumbs', 'enabled'), true);
+    });
+  });
+
+  suite('status and activity bars', () => {
+    test('are restored from the snapshot', async () => {
+      await setSetting('workbench', 'statusBar.visible', false);
+      if (hasActivityBarLocation()) {
+        await setSetting('workbench', 'activityBar.location', 'hidden');
+      } else {
+        await setSetting('workbench', 'activityBar.visible', false);
+      }
+      await globalState.update(JOURNAL_KEY, {
+        version: 2,
+        changed: { statusBar: true, activityBar: true },
+        settingsSnapshot: hasActivityBarLocation()
+          ? { statusBarVisible: true, activityBarLocation: 'top' }
+          : { statusBarVisible: true, activityBarVisible: true },
+        visibilitySnapshot: {},
+      });
+
+      await ui.recoverFromJournal();
+      assert.strictEqual(setting('workbench', 'statusBar.visible'), true);
+      if (hasActivityBarLocation()) {
+        assert.strictEqual(setting('workbench', 'activityBar.location'), 'top');
+      } else {
+        assert.strictEqual(setting('workbench', 'activityBar.visible'), true);
+      }
+    });
+
+    test('version 1 toggles are migrated to the setting values before focus mode', async () => {
+      // Version 1 hid both bars with toggle commands and kept no snapshot
+      await setSetting('workbench', 'statusBar.visible', false);
+      if (hasActivityBarLocation()) {
+        await setSetting('workbench', 'activityBar.location', 'hidden');
+      } else {
+        await setSetting('workbench', 'activityBar.visible', false);
+      }
+      await globalState.update(JOURNAL_KEY, {
+        version: 1,
+        changed: { statusBar: true, activityBar: true },
+        settingsSnapshot: {},
+        visibilitySnapshot: {},
+      });
+
+      await ui.recoverFromJournal();
+      assert.strictEqual(setting('workbench', 'statusBar.visible'), true);
+      if (hasActivityBarLocation()) {
+        assert.strictEqual(setting('workbench', 'activityBar.location'), 'default');
+      } else {
+        assert.strictEqual(setting('workbench', 'activityBar.visible'), true);
+      }
+      assert.strictEqual(ui.hasJournal(), false);
+    });
+
+    test('a version 1 toggle the user has undone since is left alone', async () => {
+      await setSetting('workbench', 'statusBar.visible', true);
+      await globalState.update(JOURNAL_KEY, {
+        version: 1,
+        changed: { statusBar: true },
+        settingsSnapshot: {},
+        visibilitySnapshot: {},
+      });
+
+      await ui.recoverFromJournal();
+      assert.strictEqual(setting('workbench', 'statusBar.visible'), true);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { getConfig } from '../../config';
+import { FocusUriHandler } from '../../uriHandler';
+
+suite('FocusUriHandler', () => {
+  suite('parseQuery', () => {
+    const defaults = getConfig();
+
+    test('reads the location', () => {
+      const query = FocusUriHandler.parseQuery('file=docs%2Fdraft.md&line=42&column=3', defaults);
+      assert.strictEqual(query.file, 'docs/draft.md');
+      assert.strictEqual(query.line, 42);
+      assert.strictEqual(query.column, 3);
+      assert.deepStrictEqual(query.arg, {});
+    });
+
+    test('ignores a line that is not a positive number', () => {
+      const query = FocusUriHandler.parseQuery('line=0&column=abc', defaults);
+      assert.strictEqual(query.line, undefined);
+      assert.strictEqual(query.column, undefined);
+    });
+
+    test('coerces config fields to the type of their default', () => {
+      const query = FocusUriHandler.parseQuery(
+        'preset=writing&opacity=0.3&typewriter=true&scope=paragraph&watchdogAllow=terminal,%20output',
+        defaults
+      );
+      assert.deepStrictEqual(query.arg, {
+        preset: 'writing',
+        opacity: 0.3,
+        typewriter: true,
+        scope: 'paragraph',
+        watchdogAllow: ['terminal', 'output'],
+      });
+    });
+
+    test('leaves values that do not fit as strings', () => {
+      const query = FocusUriHandler.parseQuery('opacity=dim&typewriter=yes', defaults);
+      assert.deepStrictEqual(query.arg, { opacity: 'dim', typewriter: 'yes' });
+    });
+  });
+});
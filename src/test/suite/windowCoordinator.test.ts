@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Lease, WindowCoordinator } from '../../windowCoordinator';
+
+/**
+ * In-memory globalState/workspaceState.
+ * `afterUpdate` runs after each write, e.g. to land another window's write.
+ */
+function memento(afterUpdate?: (values: Map<string, unknown>) => void): vscode.Memento {
+  const values = new Map<string, unknown>();
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string, fallback?: unknown) => (values.has(key) ? values.get(key) : fallback),
+    update: async (key: string, value: unknown) => {
+      if (value === undefined) { values.delete(key); } else { values.set(key, value); }
+      afterUpdate?.(values);
+    },
+  } as vscode.Memento;
+}
+
+const LEASES_KEY = 'focusMode.windowLeases';
+
+suite('WindowCoordinator', () => {
+  suite('liveLeases', () => {
+    test('drops leases that stopped heartbeating', () => {
+      const now = 1_000_000;
+      const leases = WindowCoordinator.liveLeases({
+        alive: { heartbeat: now - 5_000 },
+        dead: { heartbeat: now - 60_000 },
+      }, now);
+      assert.deepStrictEqual(Object.keys(leases), ['alive']);
+    });
+
+    test('nothing stored means no leases', () => {
+      assert.deepStrictEqual(WindowCoordinator.liveLeases(undefined, 0), {});
+    });
+  });
+
+  suite('owner', () => {
+    test('the earliest entry owns the snapshot', () => {
+      const leases: Record<string, Lease> = {
+        b: { heartbeat: 30, since: 20 },
+        a: { heartbeat: 30, since: 10 },
+      };
+      assert.strictEqual(WindowCoordinator.owner(leases), 'a');
+    });
+
+    test('windows entering at once agree on one owner', () => {
+      const leases: Record<string, Lease> = {
+        y: { heartbeat: 10, since: 10 },
+        x: { heartbeat: 10, since: 10 },
+      };
+      assert.strictEqual(WindowCoordinator.owner(leases), 'x');
+    });
+
+    test('leases without an entry time count as earliest', () => {
+      assert.strictEqual(WindowCoordinator.owner({ late: { heartbeat: 10, since: 5 }, old: { heartbeat: 10 } }), 'old');
+      assert.strictEqual(WindowCoordinator.owner({}), undefined);
+    });
+  });
+
+  suite('leases', () => {
+    let globalState: vscode.Memento;
+    const coordinators: WindowCoordinator[] = [];
+    const window = (windowState?: vscode.Memento) => {
+      const coordinator = new WindowCoordinator(globalState, windowState);
+      coordinators.push(coordinator);
+      return coordinator;
+    };
+
+    setup(() => {
+      globalState = memento();
+    });
+
+    teardown(() => {
+      coordinators.splice(0).forEach((coordinator) => coordinator.dispose());
+    });
+
+    test('a lone window owns the snapshot and is the last out', async () => {
+      const only = window();
+      assert.strictEqual(await only.acquire(), true);
+      assert.strictEqual(await only.release(), true);
+    });
+
+    test('only the first window in owns, and only the last out restores', async () => {
+      const first = window();
+      const second = window();
+      assert.strictEqual(await first.acquire(), true);
+      assert.strictEqual(await second.acquire(), false);
+      assert.strictEqual(first.othersActive(), true);
+
+      assert.strictEqual(await first.release(), false);
+      assert.strictEqual(await second.release(), true);
+    });
+
+    test('a dead window\'s lease expires', async () => {
+      await globalState.update(LEASES_KEY, { crashed: { heartbeat: Date.now() - 60_000, since: 0 } });
+      const fresh = window();
+      assert.strictEqual(fresh.othersActive(), false);
+      assert.strictEqual(await fresh.acquire(), true);
+    });
+
+    test('of two windows that both saw no lease, only the earlier one owns', async () => {
+      /** Another window that also read no leases writes its own right after ours. */
+      const racedBy = (since: number) => memento((values) => {
+        const leases = values.get(LEASES_KEY) as Record<string, Lease>;
+        if (!leases.other) {
+          values.set(LEASES_KEY, { ...leases, other: { heartbeat: Date.now(), since } });
+        }
+      });
+
+      globalState = racedBy(0);
+      assert.strictEqual(await window().acquire(), false);
+
+      globalState = racedBy(Date.now() + 60_000);
+      assert.strictEqual(await window().acquire(), true);
+    });
+
+    test('a live lease of another window blocks ownership until it expires', async () => {
+      await globalState.update(LEASES_KEY, { other: { heartbeat: Date.now(), since: 0 } });
+      const late = window();
+      assert.strictEqual(late.othersActive(), true);
+      assert.strictEqual(await late.acquire(), false);
+    });
+
+    test('a reloaded window recognizes its own stale lease', async () => {
+      const windowState = memento();
+      const beforeReload = window(windowState);
+      await beforeReload.acquire();
+      beforeReload.dispose();
+
+      const afterReload = window(windowState);
+      assert.strictEqual(afterReload.othersActive(), false);
+      assert.strictEqual(await afterReload.acquire(), true);
+      assert.strictEqual(await afterReload.release(), true);
+    });
+
+    test('without window state, a reloaded window sees its old lease as another window', async () => {
+      const beforeReload = window();
+      await beforeReload.acquire();
+      beforeReload.dispose();
+
+      assert.strictEqual(window().othersActive(), true);
+    });
+  });
+});
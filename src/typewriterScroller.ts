@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { FocusModeConfig } from './config';
+
+/** VS Code's line-height ratio for `editor.lineHeight: 0` (1.35 on macOS). */
+const DEFAULT_LINE_HEIGHT_RATIO = process.platform === 'darwin' ? 1.35 : 1.5;
+
+/**
+ * Typewriter scrolling: keeps the cursor line at a fixed vertical position
+ * in the viewport (centered, or at a configured fraction from the top).
+ *
+ * Scrolling is done with `revealRange`/`revealLine`, which can't scroll above
+ * the first line. UIManager adds matching top padding so the opening lines
+ * of a file can still reach the target position.
+ */
+export class TypewriterScroller {
+  private enabled: boolean;
+  private position: number;
+
+  constructor(config: FocusModeConfig) {
+    this.enabled = config.typewriter;
+    this.position = config.typewriterPosition;
+  }
+
+  /** Pick up new settings (e.g. after config change). */
+  configure(config: FocusModeConfig): void {
+    this.enabled = config.typewriter;
+    this.position = config.typewriterPosition;
+  }
+
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** Scroll so the primary cursor line sits at the configured position. */
+  scroll(editor: vscode.TextEditor): void {
+    if (!this.enabled || editor.visibleRanges.length === 0) { return; }
+    // revealLine only acts on the active editor
+    if (editor !== vscode.window.activeTextEditor) { return; }
+
+    const line = editor.selection.active.line;
+    if (this.position === 0.5) {
+      // Built-in centering accounts for wrapped lines and folds
+      editor.revealRange(new vscode.Range(line, 0, line, 0), vscode.TextEditorRevealType.InCenter);
+      return;
+    }
+
+    const visible = editor.visibleRanges;
+    const currentTop = visible[0].start.line;
+    const visibleLines = visible[visible.length - 1].end.line - currentTop + 1;
+    const top = TypewriterScroller.computeTopLine(line, visibleLines, this.position);
+    if (top !== currentTop) {
+      vscode.commands.executeCommand('revealLine', { lineNumber: top, at: 'top' });
+    }
+  }
+
+  /**
+   * Top padding (px) that lets line 0 sit at the configured position,
+   * based on the editor's current viewport height.
+   */
+  topPadding(editor: vscode.TextEditor): number {
+    const visible = editor.visibleRanges;
+    if (visible.length === 0) { return 0; }
+
+    const visibleLines = visible[visible.length - 1].end.line - visible[0].start.line + 1;
+    return TypewriterScroller.computeTopPadding(
+      visibleLines,
+      TypewriterScroller.lineHeightPixels(),
+      this.position
+    );
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * First visible line that places `activeLine` at `position` of the viewport.
+   * Clamped at 0, since the editor can't scroll above the first line.
+   *
+   * @param activeLine   0-based cursor line.
+   * @param visibleLines Number of lines that fit in the viewport.
+   * @param position     Target fraction from the top (0.1–0.9).
+   */
+  static computeTopLine(activeLine: number, visibleLines: number, position: number): number {
+    return Math.max(0, activeLine - Math.round((visibleLines - 1) * position));
+  }
+
+  /**
+   * Padding (px) above the first line so it can reach `position` of the viewport.
+   *
+   * @param visibleLines Number of lines that fit in the viewport.
+   * @param lineHeight   Rendered line height in px.
+   * @param position     Target fraction from the top (0.1–0.9).
+   */
+  static computeTopPadding(visibleLines: number, lineHeight: number, position: number): number {
+    return Math.max(0, Math.round((visibleLines - 1) * position * lineHeight));
+  }
+
+  /** Resolve `editor.lineHeight` the way VS Code does (0 = auto, < 8 = multiplier). */
+  private static lineHeightPixels(): number {
+    const editorCfg = vscode.workspace.getConfiguration('editor');
+    const fontSize = editorCfg.get<number>('fontSize', 14);
+    const lineHeight = editorCfg.get<number>('lineHeight', 0);
+    if (lineHeight <= 0) { return Math.round(fontSize * DEFAULT_LINE_HEIGHT_RATIO); }
+    if (lineHeight < 8) { return Math.round(fontSize * lineHeight); }
+    return lineHeight;
+  }
+}
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { getTypingTriggerConfig, TypingTriggerConfig } from './config';
+import { FocusMode } from './focusMode';
+
+/** Edits further apart than this break a typing streak. */
+const STREAK_GAP_MS = 1500;
+
+/**
+ * Typing-triggered soft focus: after a streak of continuous typing in the
+ * active editor, dims the document (`FocusMode.enter` at the `soft` level,
+ * which leaves the window layout alone). Leaves again after an idle period
+ * or as soon as the mouse is used to move the selection.
+ *
+ * Only soft sessions it started itself are ended; a session entered by hand
+ * (or one upgraded to full focus) is left alone.
+ */
+export class TypingTrigger {
+  private config: TypingTriggerConfig = getTypingTriggerConfig();
+  private streakStart = 0;
+  private lastEditAt = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Whether the running soft session was started by typing. */
+  private softEntered = false;
+  private entering = false;
+
+  constructor(private focusMode: FocusMode) {}
+
+  /** Pick up changed settings; turning the trigger off ends its session. */
+  configure(): void {
+    this.config = getTypingTriggerConfig();
+    if (!this.config.enabled) {
+      this.exitSoft();
+    }
+  }
+
+  /** Track typing in the active editor. */
+  onEdit(e: vscode.TextDocumentChangeEvent): void {
+    if (!this.config.enabled || e.contentChanges.length === 0) { return; }
+    if (e.document !== vscode.window.activeTextEditor?.document) { return; }
+
+    const now = Date.now();
+    this.streakStart = TypingTrigger.nextStreakStart(this.streakStart, this.lastEditAt, now);
+    this.lastEditAt = now;
+
+    if (this.ownsSession()) {
+      this.armIdleTimer();
+    } else if (
+      !this.focusMode.active &&
+      !this.entering &&
+      now - this.streakStart >= this.config.streakSeconds * 1000
+    ) {
+      this.enterSoft();
+    }
+  }
+
+  /** Mouse navigation means the user stopped writing. */
+  onSelection(e: vscode.TextEditorSelectionChangeEvent): void {
+    if (e.kind === vscode.TextEditorSelectionChangeKind.Mouse && this.ownsSession()) {
+      this.exitSoft();
+    }
+  }
+
+  dispose(): void {
+    this.clearIdleTimer();
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * Start of the typing streak after an edit at `now`: unchanged if the
+   * previous edit was recent enough, otherwise a new streak starts now.
+   */
+  static nextStreakStart(streakStart: number, lastEditAt: number, now: number): number {
+    return now - lastEditAt > STREAK_GAP_MS ? now : streakStart;
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  /** Whether a soft session this trigger started is still running as soft. */
+  private ownsSession(): boolean {
+    return this.softEntered && this.focusMode.active && this.focusMode.activeLevel === 'soft';
+  }
+
+  private async enterSoft(): Promise<void> {
+    this.entering = true;
+    try {
+      await this.focusMode.enter(undefined, 'soft');
+      this.softEntered = this.focusMode.active && this.focusMode.activeLevel === 'soft';
+      if (this.softEntered) {
+        this.armIdleTimer();
+      }
+    } finally {
+      this.entering = false;
+    }
+  }
+
+  private async exitSoft(): Promise<void> {
+    this.clearIdleTimer();
+    const owned = this.ownsSession();
+    this.softEntered = false;
+    this.streakStart = 0;
+    this.lastEditAt = 0;
+    if (owned) {
+      await this.focusMode.exit();
+    }
+  }
+
+  private armIdleTimer(): void {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => this.exitSoft(), this.config.idleSeconds * 1000);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { FocusModeConfig, toLineNumberStyle } from './config';
+import { getContextBoolean } from './contextKeys';
 
 /**
  * Tracks which UI elements were changed by this Focus Mode session
@@ -22,6 +23,7 @@ interface ChangedByFocusMode {
   layoutControl: boolean;
   lineNumbers: boolean;
   zoom: boolean;
+  typewriterPadding: boolean;
 }
 
 interface VisibilitySnapshot {
@@ -45,16 +47,52 @@ interface SettingsSnapshot {
   lineNumbers: string | undefined;
   zoomLevel: number | undefined;
   zoomPerWindow: boolean | undefined;
+  statusBarVisible: boolean | undefined;
+  /** `workbench.activityBar.location` (VS Code 1.86+). */
+  activityBarLocation: string | undefined;
+  /** `workbench.activityBar.visible` (older VS Code without the location setting). */
+  activityBarVisible: boolean | undefined;
+  paddingTop: number | undefined;
+  scrollBeyondLastLine: boolean | undefined;
 }
 
+/**
+ * Durable copy of the ledger and snapshots, kept in globalState while
+ * focus mode is active so a killed session can be undone on next launch.
+ */
+interface RecoveryJournal {
+  version: number;
+  changed: ChangedByFocusMode;
+  settingsSnapshot: SettingsSnapshot;
+  visibilitySnapshot: VisibilitySnapshot;
+}
+
+const JOURNAL_KEY = 'focusMode.journal';
+
+/** Ledger entries for settings shared by all windows (the rest are per-window toggles). */
+const SHARED_LEDGER_KEYS: (keyof ChangedByFocusMode)[] = [
+  'minimap', 'tabs', 'editorActions', 'breadcrumbs', 'menuBar', 'commandCenter',
+  'layoutControl', 'statusBar', 'activityBar', 'zoom', 'typewriterPadding',
+];
+/**
+ * Journal format version.
+ * - 1: status/activity bar ledger entries mean "toggled by command".
+ * - 2: they mean "setting changed", with values in the settings snapshot.
+ */
+const JOURNAL_VERSION = 2;
+
 /**
  * Manages hiding and restoring VS Code UI chrome.
  *
  * Two restoration tiers:
- * 1. **Deterministic** (settings-backed): minimap, tabs, breadcrumbs, line numbers
- *    — snapshot exact values, write, restore from snapshot.
- * 2. **Best-effort** (command toggles): sidebar, panel, activity bar, status bar, fullscreen
+ * 1. **Deterministic** (settings-backed): minimap, tabs, breadcrumbs, status bar,
+ *    activity bar, line numbers — snapshot exact values, write, restore from snapshot.
+ * 2. **Best-effort** (command toggles): sidebar, panel, fullscreen, centered layout
  *    — record what we changed, reverse only those on exit.
+ *
+ * The ledger and snapshots are journaled to globalState on every hide step
+ * (settings are journaled *before* they are written), so `recoverFromJournal`
+ * can replay an exact restore after VS Code is killed mid-session.
  */
 export class UIManager {
   private changed: ChangedByFocusMode = this.freshLedger();
@@ -69,6 +107,11 @@ export class UIManager {
     lineNumbers: undefined,
     zoomLevel: undefined,
     zoomPerWindow: undefined,
+    statusBarVisible: undefined,
+    activityBarLocation: undefined,
+    activityBarVisible: undefined,
+    paddingTop: undefined,
+    scrollBeyondLastLine: undefined,
   };
   private visibilitySnapshot: VisibilitySnapshot = {
     sideBarVisible: false,
@@ -77,6 +120,8 @@ export class UIManager {
   };
   /** Tracks how many hide steps succeeded so rollback can undo them. */
   private hideStepsCompleted = 0;
+  /** Whether this window took the shared settings snapshot (see WindowCoordinator). */
+  private ownsSettings = true;
   /** globalState memento for persisting focus-mode zoom level across sessions. */
   private globalState: vscode.Memento;
 
@@ -89,8 +134,12 @@ export class UIManager {
    * Records what was changed for precise restoration.
    *
    * If any step fails, previously applied steps are rolled back.
+   *
+   * @param ownsSettings False when another window already has focus mode on:
+   *                     the shared settings are then left as that window set them.
    */
-  async hideChrome(config: FocusModeConfig): Promise<void> {
+  async hideChrome(config: FocusModeConfig, ownsSettings = true): Promise<void> {
+    this.ownsSettings = ownsSettings;
     this.changed = this.freshLedger();
     this.hideStepsCompleted = 0;
     this.visibilitySnapshot = {
@@ -101,159 +150,43 @@ export class UIManager {
 
     try {
       // ── Deterministic tier: snapshot then write settings ──────────
-
-      // Minimap
-      if (config.hideMinimap) {
-        const editorCfg = vscode.workspace.getConfiguration('editor.minimap');
-        this.settingsSnapshot.minimapEnabled = editorCfg.get<boolean>('enabled');
-        if (this.settingsSnapshot.minimapEnabled !== false) {
-          await editorCfg.update('enabled', false, vscode.ConfigurationTarget.Global);
-          this.changed.minimap = true;
-        }
-      }
-      this.hideStepsCompleted++;
-
-      // Tabs
-      {
-        const wbCfg = vscode.workspace.getConfiguration('workbench.editor');
-        this.settingsSnapshot.showTabs = wbCfg.get<string>('showTabs');
-        if (this.settingsSnapshot.showTabs !== 'none') {
-          await wbCfg.update('showTabs', 'none', vscode.ConfigurationTarget.Global);
-          this.changed.tabs = true;
-        }
-      }
-      this.hideStepsCompleted++;
-
-      // Editor actions bar (split/close/... icons at top of editor group)
-      {
-        const wbCfg = vscode.workspace.getConfiguration('workbench.editor');
-        this.settingsSnapshot.editorActionsLocation = wbCfg.get<string>('editorActionsLocation');
-        if (this.settingsSnapshot.editorActionsLocation !== 'hidden') {
-          await wbCfg.update('editorActionsLocation', 'hidden', vscode.ConfigurationTarget.Global);
-          this.changed.editorActions = true;
-        }
-      }
-      this.hideStepsCompleted++;
-
-      // Breadcrumbs
-      {
-        const bcCfg = vscode.workspace.getConfiguration('breadcrumbs');
-        this.settingsSnapshot.breadcrumbsEnabled = bcCfg.get<boolean>('enabled');
-        if (this.settingsSnapshot.breadcrumbsEnabled !== false) {
-          await bcCfg.update('enabled', false, vscode.ConfigurationTarget.Global);
-          this.changed.breadcrumbs = true;
-        }
-      }
-      this.hideStepsCompleted++;
-
-      // Menu bar (title bar with File/Edit/View etc.)
-      {
-        const winCfg = vscode.workspace.getConfiguration('window');
-        this.settingsSnapshot.menuBarVisibility = winCfg.get<string>('menuBarVisibility');
-        if (this.settingsSnapshot.menuBarVisibility !== 'hidden') {
-          await winCfg.update('menuBarVisibility', 'hidden', vscode.ConfigurationTarget.Global);
-          this.changed.menuBar = true;
-        }
-      }
-      this.hideStepsCompleted++;
-
-      // Command center (top search/command bar in title bar)
-      {
-        const winCfg = vscode.workspace.getConfiguration('window');
-        this.settingsSnapshot.commandCenter = winCfg.get<boolean>('commandCenter');
-        if (this.settingsSnapshot.commandCenter !== false) {
-          await winCfg.update('commandCenter', false, vscode.ConfigurationTarget.Global);
-          this.changed.commandCenter = true;
-        }
-      }
-      this.hideStepsCompleted++;
-
-      // Layout controls (split/grid/layout icons in the title bar area)
-      {
-        const wbCfg = vscode.workspace.getConfiguration('workbench.layoutControl');
-        this.settingsSnapshot.layoutControlEnabled = wbCfg.get<boolean>('enabled');
-        if (this.settingsSnapshot.layoutControlEnabled !== false) {
-          await wbCfg.update('enabled', false, vscode.ConfigurationTarget.Global);
-          this.changed.layoutControl = true;
-        }
-      }
-      this.hideStepsCompleted++;
-
-      // Zoom level — maintain separate zoom for focus mode vs normal mode.
-      //
-      // IMPORTANT: Since VS Code 1.86, `window.zoomPerWindow` is ON by default.
-      // When enabled, Ctrl+=/- only change a per-window zoom that is NOT
-      // reflected in the `window.zoomLevel` setting.  The per-window zoom
-      // *overrides* the setting for that window.
-      //
-      // Ordering is critical:
-      //   1. Snapshot `window.zoomLevel` and `window.zoomPerWindow`.
-      //   2. While zoomPerWindow is still true, call zoomReset to clear
-      //      any per-window override (with zoomPerWindow=true, zoomReset
-      //      clears the override and syncs to the setting — safe).
-      //   3. Disable `window.zoomPerWindow` so future Ctrl+=/- writes
-      //      directly to the setting (lets us read true zoom on exit).
-      //   4. Write saved focus zoom into `window.zoomLevel` LAST.
-      //      With zoomPerWindow=false, this immediately takes effect.
-      //      Do NOT call zoomReset after this — when zoomPerWindow is
-      //      false, zoomReset resets window.zoomLevel to 0!
-      {
-        const winCfg = vscode.workspace.getConfiguration('window');
-        const currentZoom = winCfg.get<number>('zoomLevel') ?? 0;
-        this.settingsSnapshot.zoomLevel = currentZoom;
-        this.settingsSnapshot.zoomPerWindow = winCfg.get<boolean>('zoomPerWindow');
-
-        // Step 2: clear per-window override while zoomPerWindow is still true
-        await vscode.commands.executeCommand('workbench.action.zoomReset');
-
-        // Step 3: disable zoomPerWindow so Ctrl+=/- goes to the setting
-        if (this.settingsSnapshot.zoomPerWindow !== false) {
-          await winCfg.update('zoomPerWindow', false, vscode.ConfigurationTarget.Global);
-        }
-
-        // Step 4: apply saved focus zoom LAST (no zoomReset after this!)
-        const savedFocusZoom = this.globalState.get<number>('focusMode.focusZoomLevel');
-        if (savedFocusZoom !== undefined && savedFocusZoom !== currentZoom) {
-          await winCfg.update('zoomLevel', savedFocusZoom, vscode.ConfigurationTarget.Global);
-          this.changed.zoom = true;
-        }
+      // Shared by all windows: only the owning (first) window touches them.
+      if (ownsSettings) {
+        await this.hideSettings(config);
       }
-      this.hideStepsCompleted++;
 
       // ── Best-effort tier: commands ────────────────────────────────
 
       // Sidebar (close is idempotent)
-      this.visibilitySnapshot.sideBarVisible = await this.getContextBoolean('sideBarVisible');
-      await vscode.commands.executeCommand('workbench.action.closeSidebar');
-      this.changed.sideBar = this.visibilitySnapshot.sideBarVisible;
+      if (config.hideSideBar) {
+        this.visibilitySnapshot.sideBarVisible = await getContextBoolean('sideBarVisible');
+        await vscode.commands.executeCommand('workbench.action.closeSidebar');
+        this.changed.sideBar = this.visibilitySnapshot.sideBarVisible;
+        await this.writeJournal();
+      }
       this.hideStepsCompleted++;
 
       // Panel (close is idempotent)
-      this.visibilitySnapshot.panelVisible = await this.getContextBoolean('panelVisible');
-      await vscode.commands.executeCommand('workbench.action.closePanel');
-      this.changed.panel = this.visibilitySnapshot.panelVisible;
+      if (config.hidePanel) {
+        this.visibilitySnapshot.panelVisible = await getContextBoolean('panelVisible');
+        await vscode.commands.executeCommand('workbench.action.closePanel');
+        this.changed.panel = this.visibilitySnapshot.panelVisible;
+        await this.writeJournal();
+      }
       this.hideStepsCompleted++;
 
       // Auxiliary bar (typically where chat lives)
-      this.visibilitySnapshot.auxiliaryBarVisible = await this.getContextBoolean('auxiliaryBarVisible');
+      this.visibilitySnapshot.auxiliaryBarVisible = await getContextBoolean('auxiliaryBarVisible');
       await vscode.commands.executeCommand('workbench.action.closeAuxiliaryBar');
       this.changed.auxiliaryBar = this.visibilitySnapshot.auxiliaryBarVisible;
-      this.hideStepsCompleted++;
-
-      // Activity bar (toggle — no state query available)
-      await vscode.commands.executeCommand('workbench.action.toggleActivityBarVisibility');
-      this.changed.activityBar = true;
-      this.hideStepsCompleted++;
-
-      // Status bar (toggle — no state query available)
-      await vscode.commands.executeCommand('workbench.action.toggleStatusbarVisibility');
-      this.changed.statusBar = true;
+      await this.writeJournal();
       this.hideStepsCompleted++;
 
       // Full screen
       if (config.fullScreen) {
         await vscode.commands.executeCommand('workbench.action.toggleFullScreen');
         this.changed.fullScreen = true;
+        await this.writeJournal();
       }
       this.hideStepsCompleted++;
 
@@ -261,6 +194,7 @@ export class UIManager {
       if (config.centerLayout) {
         await vscode.commands.executeCommand('workbench.action.toggleCenteredLayout');
         this.changed.centeredLayout = true;
+        await this.writeJournal();
       }
       this.hideStepsCompleted++;
     } catch (err) {
@@ -272,10 +206,336 @@ export class UIManager {
 
   /**
    * Restore only the UI elements that were changed by this focus mode session.
+   *
+   * @param restoreSettings False when other windows are still in focus mode:
+   *                        only this window's layout toggles are reversed.
    */
-  async restoreChrome(): Promise<void> {
+  async restoreChrome(restoreSettings = true): Promise<void> {
     // ── Deterministic tier: restore exact settings values ────────
+    // Shared by all windows: only the last window out restores them,
+    // from the journal if another window took the snapshot.
+    if (restoreSettings) {
+      if (!this.ownsSettings) {
+        this.loadSharedFromJournal();
+      }
+      await this.restoreSettings();
+    }
+
+    // ── Best-effort tier: reverse toggle commands ────────────────
+
+    if (this.changed.centeredLayout) {
+      await vscode.commands.executeCommand('workbench.action.toggleCenteredLayout');
+    }
+
+    if (this.changed.fullScreen) {
+      await vscode.commands.executeCommand('workbench.action.toggleFullScreen');
+    }
+
+    // Parts open at entry are reopened only if still closed, since something
+    // may have reopened them. Parts the watchdog closed aren't in the ledger.
+    if (this.changed.panel && !(await getContextBoolean('panelVisible'))) {
+      await vscode.commands.executeCommand('workbench.action.togglePanel');
+    }
+
+    if (this.changed.auxiliaryBar && !(await getContextBoolean('auxiliaryBarVisible'))) {
+      await vscode.commands.executeCommand('workbench.action.toggleAuxiliaryBar');
+    }
+
+    if (this.changed.sideBar && !(await getContextBoolean('sideBarVisible'))) {
+      await vscode.commands.executeCommand('workbench.action.toggleSidebarVisibility');
+    }
+
+    // Reset ledger
+    this.changed = this.freshLedger();
+    if (restoreSettings) {
+      await this.globalState.update(JOURNAL_KEY, undefined);
+    } else if (this.ownsSettings) {
+      // Other windows still need the settings snapshot; drop only our toggles
+      await this.dropWindowLocalFromJournal();
+    }
+  }
+
+  /** Whether a journal from an unfinished session is waiting to be replayed. */
+  hasJournal(): boolean {
+    return this.globalState.get<RecoveryJournal>(JOURNAL_KEY) !== undefined;
+  }
+
+  /**
+   * Replay the journal left by a session that never exited (crash, kill, power loss).
+   *
+   * Settings are restored exactly from the journaled snapshot, unless the
+   * user has changed them since. Window-layout toggles are reversed only if
+   * their focus-mode state is still in effect, since VS Code may not have
+   * persisted them across the restart.
+   *
+   * Returns false if there was no journal to replay.
+   */
+  async recoverFromJournal(): Promise<boolean> {
+    const journal = this.globalState.get<RecoveryJournal>(JOURNAL_KEY);
+    if (!journal) { return false; }
+
+    // Merge over fresh defaults so journals missing newer fields still load
+    this.changed = { ...this.freshLedger(), ...journal.changed };
+    this.settingsSnapshot = { ...this.settingsSnapshot, ...journal.settingsSnapshot };
+    this.visibilitySnapshot = { ...this.visibilitySnapshot, ...journal.visibilitySnapshot };
+    if ((journal.version ?? 1) < 2) {
+      this.migrateToggledBars();
+    }
+    this.ownsSettings = true;
+
+    this.pruneChangedSettings();
+    await this.pruneStaleToggles();
+    await this.restoreChrome();
+    return true;
+  }
+
+  /**
+   * Collapse all editor groups into one.
+   * Throws if the operation fails.
+   */
+  async enforceSingleEditorGroup(): Promise<void> {
+    await vscode.commands.executeCommand('workbench.action.joinAllGroups');
+  }
+
+  /**
+   * Apply line-number style to the given editor.
+   */
+  applyLineNumbers(editor: vscode.TextEditor, config: FocusModeConfig): void {
+    const style = toLineNumberStyle(config.lineNumbers);
+    if (style !== undefined) {
+      // Save the original line numbers setting on first call
+      if (!this.changed.lineNumbers) {
+        const editorCfg = vscode.workspace.getConfiguration('editor');
+        this.settingsSnapshot.lineNumbers = editorCfg.get<string>('lineNumbers');
+        this.changed.lineNumbers = true;
+      }
+      editor.options = { lineNumbers: style };
+    }
+  }
+
+  /**
+   * Add top padding (and allow scrolling past the last line) so typewriter
+   * scrolling can hold the first and last lines at its target position.
+   * Snapshots the original values on first call.
+   */
+  async applyTypewriterPadding(paddingTop: number): Promise<void> {
+    // Padding is a shared setting: leave it to the owning window
+    if (!this.ownsSettings) { return; }
+
+    const editorCfg = vscode.workspace.getConfiguration('editor');
+    if (!this.changed.typewriterPadding) {
+      this.settingsSnapshot.paddingTop = editorCfg.get<number>('padding.top');
+      this.settingsSnapshot.scrollBeyondLastLine = editorCfg.get<boolean>('scrollBeyondLastLine');
+      this.changed.typewriterPadding = true;
+      await this.writeJournal();
+    }
+    // Called on every editor switch; don't rewrite settings.json for nothing
+    if (editorCfg.get<number>('padding.top') !== paddingTop) {
+      await editorCfg.update('padding.top', paddingTop, vscode.ConfigurationTarget.Global);
+    }
+    if (this.settingsSnapshot.scrollBeyondLastLine !== true && editorCfg.get<boolean>('scrollBeyondLastLine') !== true) {
+      await editorCfg.update('scrollBeyondLastLine', true, vscode.ConfigurationTarget.Global);
+    }
+  }
+
+  /** Undo applyTypewriterPadding, if it was applied. */
+  async restoreTypewriterPadding(): Promise<void> {
+    if (!this.changed.typewriterPadding) { return; }
 
+    const editorCfg = vscode.workspace.getConfiguration('editor');
+    if (this.settingsSnapshot.paddingTop !== undefined) {
+      await editorCfg.update('padding.top', this.settingsSnapshot.paddingTop, vscode.ConfigurationTarget.Global);
+    }
+    if (this.settingsSnapshot.scrollBeyondLastLine !== undefined
+        && this.settingsSnapshot.scrollBeyondLastLine !== true) {
+      await editorCfg.update('scrollBeyondLastLine', this.settingsSnapshot.scrollBeyondLastLine, vscode.ConfigurationTarget.Global);
+    }
+    this.changed.typewriterPadding = false;
+  }
+
+  /**
+   * Restore line numbers on the given editor.
+   */
+  restoreLineNumbers(editor: vscode.TextEditor): void {
+    if (this.changed.lineNumbers && this.settingsSnapshot.lineNumbers !== undefined) {
+      // Map string back to enum
+      const map: Record<string, vscode.TextEditorLineNumbersStyle> = {
+        'off': vscode.TextEditorLineNumbersStyle.Off,
+        'on': vscode.TextEditorLineNumbersStyle.On,
+        'relative': vscode.TextEditorLineNumbersStyle.Relative,
+      };
+      const style = map[this.settingsSnapshot.lineNumbers] ?? vscode.TextEditorLineNumbersStyle.On;
+      editor.options = { lineNumbers: style };
+    }
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  /** Snapshot and write the settings-backed (deterministic) tier. */
+  private async hideSettings(config: FocusModeConfig): Promise<void> {
+    // Minimap
+    if (config.hideMinimap) {
+      const editorCfg = vscode.workspace.getConfiguration('editor.minimap');
+      this.settingsSnapshot.minimapEnabled = editorCfg.get<boolean>('enabled');
+      if (this.settingsSnapshot.minimapEnabled !== false) {
+        this.changed.minimap = true;
+        await this.writeJournal();
+        await editorCfg.update('enabled', false, vscode.ConfigurationTarget.Global);
+      }
+    }
+    this.hideStepsCompleted++;
+
+    // Tabs
+    {
+      const wbCfg = vscode.workspace.getConfiguration('workbench.editor');
+      this.settingsSnapshot.showTabs = wbCfg.get<string>('showTabs');
+      if (this.settingsSnapshot.showTabs !== 'none') {
+        this.changed.tabs = true;
+        await this.writeJournal();
+        await wbCfg.update('showTabs', 'none', vscode.ConfigurationTarget.Global);
+      }
+    }
+    this.hideStepsCompleted++;
+
+    // Editor actions bar (split/close/... icons at top of editor group)
+    {
+      const wbCfg = vscode.workspace.getConfiguration('workbench.editor');
+      this.settingsSnapshot.editorActionsLocation = wbCfg.get<string>('editorActionsLocation');
+      if (this.settingsSnapshot.editorActionsLocation !== 'hidden') {
+        this.changed.editorActions = true;
+        await this.writeJournal();
+        await wbCfg.update('editorActionsLocation', 'hidden', vscode.ConfigurationTarget.Global);
+      }
+    }
+    this.hideStepsCompleted++;
+
+    // Breadcrumbs
+    {
+      const bcCfg = vscode.workspace.getConfiguration('breadcrumbs');
+      this.settingsSnapshot.breadcrumbsEnabled = bcCfg.get<boolean>('enabled');
+      if (this.settingsSnapshot.breadcrumbsEnabled !== false) {
+        this.changed.breadcrumbs = true;
+        await this.writeJournal();
+        await bcCfg.update('enabled', false, vscode.ConfigurationTarget.Global);
+      }
+    }
+    this.hideStepsCompleted++;
+
+    // Menu bar (title bar with File/Edit/View etc.)
+    {
+      const winCfg = vscode.workspace.getConfiguration('window');
+      this.settingsSnapshot.menuBarVisibility = winCfg.get<string>('menuBarVisibility');
+      if (this.settingsSnapshot.menuBarVisibility !== 'hidden') {
+        this.changed.menuBar = true;
+        await this.writeJournal();
+        await winCfg.update('menuBarVisibility', 'hidden', vscode.ConfigurationTarget.Global);
+      }
+    }
+    this.hideStepsCompleted++;
+
+    // Command center (top search/command bar in title bar)
+    {
+      const winCfg = vscode.workspace.getConfiguration('window');
+      this.settingsSnapshot.commandCenter = winCfg.get<boolean>('commandCenter');
+      if (this.settingsSnapshot.commandCenter !== false) {
+        this.changed.commandCenter = true;
+        await this.writeJournal();
+        await winCfg.update('commandCenter', false, vscode.ConfigurationTarget.Global);
+      }
+    }
+    this.hideStepsCompleted++;
+
+    // Layout controls (split/grid/layout icons in the title bar area)
+    {
+      const wbCfg = vscode.workspace.getConfiguration('workbench.layoutControl');
+      this.settingsSnapshot.layoutControlEnabled = wbCfg.get<boolean>('enabled');
+      if (this.settingsSnapshot.layoutControlEnabled !== false) {
+        this.changed.layoutControl = true;
+        await this.writeJournal();
+        await wbCfg.update('enabled', false, vscode.ConfigurationTarget.Global);
+      }
+    }
+    this.hideStepsCompleted++;
+
+    // Status bar
+    {
+      const wbCfg = vscode.workspace.getConfiguration('workbench');
+      this.settingsSnapshot.statusBarVisible = wbCfg.get<boolean>('statusBar.visible');
+      if (this.settingsSnapshot.statusBarVisible !== false) {
+        this.changed.statusBar = true;
+        await this.writeJournal();
+        await wbCfg.update('statusBar.visible', false, vscode.ConfigurationTarget.Global);
+      }
+    }
+    this.hideStepsCompleted++;
+
+    // Activity bar — `activityBar.location` replaced `activityBar.visible` in VS Code 1.86
+    {
+      const wbCfg = vscode.workspace.getConfiguration('workbench');
+      if (UIManager.hasActivityBarLocation()) {
+        this.settingsSnapshot.activityBarLocation = wbCfg.get<string>('activityBar.location');
+        if (this.settingsSnapshot.activityBarLocation !== 'hidden') {
+          this.changed.activityBar = true;
+          await this.writeJournal();
+          await wbCfg.update('activityBar.location', 'hidden', vscode.ConfigurationTarget.Global);
+        }
+      } else {
+        this.settingsSnapshot.activityBarVisible = wbCfg.get<boolean>('activityBar.visible');
+        if (this.settingsSnapshot.activityBarVisible !== false) {
+          this.changed.activityBar = true;
+          await this.writeJournal();
+          await wbCfg.update('activityBar.visible', false, vscode.ConfigurationTarget.Global);
+        }
+      }
+    }
+    this.hideStepsCompleted++;
+
+    // Zoom level — maintain separate zoom for focus mode vs normal mode.
+    //
+    // IMPORTANT: Since VS Code 1.86, `window.zoomPerWindow` is ON by default.
+    // When enabled, Ctrl+=/- only change a per-window zoom that is NOT
+    // reflected in the `window.zoomLevel` setting.  The per-window zoom
+    // *overrides* the setting for that window.
+    //
+    // Ordering is critical:
+    //   1. Snapshot `window.zoomLevel` and `window.zoomPerWindow`.
+    //   2. While zoomPerWindow is still true, call zoomReset to clear
+    //      any per-window override (with zoomPerWindow=true, zoomReset
+    //      clears the override and syncs to the setting — safe).
+    //   3. Disable `window.zoomPerWindow` so future Ctrl+=/- writes
+    //      directly to the setting (lets us read true zoom on exit).
+    //   4. Write saved focus zoom into `window.zoomLevel` LAST.
+    //      With zoomPerWindow=false, this immediately takes effect.
+    //      Do NOT call zoomReset after this — when zoomPerWindow is
+    //      false, zoomReset resets window.zoomLevel to 0!
+    {
+      const winCfg = vscode.workspace.getConfiguration('window');
+      const currentZoom = winCfg.get<number>('zoomLevel') ?? 0;
+      this.settingsSnapshot.zoomLevel = currentZoom;
+      this.settingsSnapshot.zoomPerWindow = winCfg.get<boolean>('zoomPerWindow');
+      await this.writeJournal();
+
+      // Step 2: clear per-window override while zoomPerWindow is still true
+      await vscode.commands.executeCommand('workbench.action.zoomReset');
+
+      // Step 3: disable zoomPerWindow so Ctrl+=/- goes to the setting
+      if (this.settingsSnapshot.zoomPerWindow !== false) {
+        await winCfg.update('zoomPerWindow', false, vscode.ConfigurationTarget.Global);
+      }
+
+      // Step 4: apply saved focus zoom LAST (no zoomReset after this!)
+      const savedFocusZoom = this.globalState.get<number>('focusMode.focusZoomLevel');
+      if (savedFocusZoom !== undefined && savedFocusZoom !== currentZoom) {
+        this.changed.zoom = true;
+        await this.writeJournal();
+        await winCfg.update('zoomLevel', savedFocusZoom, vscode.ConfigurationTarget.Global);
+      }
+    }
+    this.hideStepsCompleted++;
+  }
+
+  /** Restore the settings-backed (deterministic) tier from the snapshot. */
+  private async restoreSettings(): Promise<void> {
     if (this.changed.minimap && this.settingsSnapshot.minimapEnabled !== undefined) {
       const editorCfg = vscode.workspace.getConfiguration('editor.minimap');
       await editorCfg.update('enabled', this.settingsSnapshot.minimapEnabled, vscode.ConfigurationTarget.Global);
@@ -311,6 +571,22 @@ export class UIManager {
       await wbCfg.update('enabled', this.settingsSnapshot.layoutControlEnabled, vscode.ConfigurationTarget.Global);
     }
 
+    if (this.changed.statusBar && this.settingsSnapshot.statusBarVisible !== undefined) {
+      const wbCfg = vscode.workspace.getConfiguration('workbench');
+      await wbCfg.update('statusBar.visible', this.settingsSnapshot.statusBarVisible, vscode.ConfigurationTarget.Global);
+    }
+
+    if (this.changed.activityBar) {
+      const wbCfg = vscode.workspace.getConfiguration('workbench');
+      if (this.settingsSnapshot.activityBarLocation !== undefined) {
+        await wbCfg.update('activityBar.location', this.settingsSnapshot.activityBarLocation, vscode.ConfigurationTarget.Global);
+      } else if (this.settingsSnapshot.activityBarVisible !== undefined) {
+        await wbCfg.update('activityBar.visible', this.settingsSnapshot.activityBarVisible, vscode.ConfigurationTarget.Global);
+      }
+    }
+
+    await this.restoreTypewriterPadding();
+
     // Zoom level — save current (focus-mode) zoom, restore normal-mode zoom.
     //
     // Because we disabled zoomPerWindow on enter, Ctrl+=/- during focus mode
@@ -346,92 +622,136 @@ export class UIManager {
       // Step 5: zoomReset with zoomPerWindow=true clears per-window override safely
       await vscode.commands.executeCommand('workbench.action.zoomReset');
     }
+  }
 
-    // ── Best-effort tier: reverse toggle commands ────────────────
-
-    if (this.changed.centeredLayout) {
-      await vscode.commands.executeCommand('workbench.action.toggleCenteredLayout');
+  /** Rollback after a partial failure in hideChrome. */
+  private async restoreChromePartial(): Promise<void> {
+    try {
+      await this.restoreChrome(this.ownsSettings);
+    } catch {
+      // Best-effort: swallow errors during rollback
     }
+  }
 
-    if (this.changed.fullScreen) {
-      await vscode.commands.executeCommand('workbench.action.toggleFullScreen');
-    }
+  /** Persist the current ledger and snapshots for crash recovery. */
+  private async writeJournal(): Promise<void> {
+    // The journal holds the shared snapshot: only its owner writes it
+    if (!this.ownsSettings) { return; }
 
-    if (this.changed.statusBar) {
-      await vscode.commands.executeCommand('workbench.action.toggleStatusbarVisibility');
-    }
+    const journal: RecoveryJournal = {
+      version: JOURNAL_VERSION,
+      changed: { ...this.changed },
+      settingsSnapshot: { ...this.settingsSnapshot },
+      visibilitySnapshot: { ...this.visibilitySnapshot },
+    };
+    await this.globalState.update(JOURNAL_KEY, journal);
+  }
 
-    if (this.changed.activityBar) {
-      await vscode.commands.executeCommand('workbench.action.toggleActivityBarVisibility');
-    }
+  /**
+   * Adopt the shared settings ledger and snapshot journaled by the window
+   * that entered first, so the last window out can restore them.
+   */
+  private loadSharedFromJournal(): void {
+    const journal = this.globalState.get<RecoveryJournal>(JOURNAL_KEY);
+    if (!journal) { return; }
 
-    if (this.changed.panel) {
-      await vscode.commands.executeCommand('workbench.action.togglePanel');
+    for (const key of SHARED_LEDGER_KEYS) {
+      this.changed[key] = journal.changed[key] ?? false;
     }
+    // Line numbers are per-editor in each window; keep our own snapshot
+    this.settingsSnapshot = {
+      ...this.settingsSnapshot,
+      ...journal.settingsSnapshot,
+      lineNumbers: this.settingsSnapshot.lineNumbers,
+    };
+  }
 
-    if (this.changed.auxiliaryBar) {
-      await vscode.commands.executeCommand('workbench.action.toggleAuxiliaryBar');
-    }
+  /** Clear this window's layout toggles from the journal, keeping the shared settings. */
+  private async dropWindowLocalFromJournal(): Promise<void> {
+    const journal = this.globalState.get<RecoveryJournal>(JOURNAL_KEY);
+    if (!journal) { return; }
 
-    if (this.changed.sideBar) {
-      await vscode.commands.executeCommand('workbench.action.toggleSidebarVisibility');
+    const changed = this.freshLedger();
+    for (const key of SHARED_LEDGER_KEYS) {
+      changed[key] = journal.changed[key] ?? false;
     }
-
-    // Reset ledger
-    this.changed = this.freshLedger();
+    await this.globalState.update(JOURNAL_KEY, { ...journal, changed });
   }
 
   /**
-   * Collapse all editor groups into one.
-   * Throws if the operation fails.
+   * Before replaying a journal, drop ledger entries for toggles whose
+   * focus-mode state no longer holds — toggling those would invert them.
    */
-  async enforceSingleEditorGroup(): Promise<void> {
-    await vscode.commands.executeCommand('workbench.action.joinAllGroups');
+  private async pruneStaleToggles(): Promise<void> {
+    if (this.changed.fullScreen) {
+      this.changed.fullScreen = await getContextBoolean('isFullscreen');
+    }
+    if (this.changed.centeredLayout) {
+      this.changed.centeredLayout = await getContextBoolean('isCenteredLayout');
+    }
+    if (this.changed.sideBar) {
+      this.changed.sideBar = !(await getContextBoolean('sideBarVisible'));
+    }
+    if (this.changed.panel) {
+      this.changed.panel = !(await getContextBoolean('panelVisible'));
+    }
+    if (this.changed.auxiliaryBar) {
+      this.changed.auxiliaryBar = !(await getContextBoolean('auxiliaryBarVisible'));
+    }
   }
 
   /**
-   * Apply line-number style to the given editor.
+   * Before replaying a journal, drop ledger entries for settings that no
+   * longer hold the value focus mode wrote: the user changed them after the
+   * session died, and restoring the snapshot would undo that. A setting that
+   * was journaled but never written (killed mid-step) is dropped too.
    */
-  applyLineNumbers(editor: vscode.TextEditor, config: FocusModeConfig): void {
-    const style = toLineNumberStyle(config.lineNumbers);
-    if (style !== undefined) {
-      // Save the original line numbers setting on first call
-      if (!this.changed.lineNumbers) {
-        const editorCfg = vscode.workspace.getConfiguration('editor');
-        this.settingsSnapshot.lineNumbers = editorCfg.get<string>('lineNumbers');
-        this.changed.lineNumbers = true;
-      }
-      editor.options = { lineNumbers: style };
-    }
+  private pruneChangedSettings(): void {
+    const holds = (section: string, key: string, focusValue: unknown) =>
+      vscode.workspace.getConfiguration(section).get(key) === focusValue;
+
+    this.changed.minimap &&= holds('editor.minimap', 'enabled', false);
+    this.changed.tabs &&= holds('workbench.editor', 'showTabs', 'none');
+    this.changed.editorActions &&= holds('workbench.editor', 'editorActionsLocation', 'hidden');
+    this.changed.breadcrumbs &&= holds('breadcrumbs', 'enabled', false);
+    this.changed.menuBar &&= holds('window', 'menuBarVisibility', 'hidden');
+    this.changed.commandCenter &&= holds('window', 'commandCenter', false);
+    this.changed.layoutControl &&= holds('workbench.layoutControl', 'enabled', false);
+    this.changed.statusBar &&= holds('workbench', 'statusBar.visible', false);
+    this.changed.activityBar &&= this.settingsSnapshot.activityBarLocation !== undefined
+      ? holds('workbench', 'activityBar.location', 'hidden')
+      : holds('workbench', 'activityBar.visible', false);
   }
 
   /**
-   * Restore line numbers on the given editor.
+   * Version 1 journals recorded the status/activity bars as blind toggles
+   * without a snapshot. The toggle commands write the same settings we now
+   * manage, so the pre-focus value is the opposite of what is there now.
    */
-  restoreLineNumbers(editor: vscode.TextEditor): void {
-    if (this.changed.lineNumbers && this.settingsSnapshot.lineNumbers !== undefined) {
-      // Map string back to enum
-      const map: Record<string, vscode.TextEditorLineNumbersStyle> = {
-        'off': vscode.TextEditorLineNumbersStyle.Off,
-        'on': vscode.TextEditorLineNumbersStyle.On,
-        'relative': vscode.TextEditorLineNumbersStyle.Relative,
-      };
-      const style = map[this.settingsSnapshot.lineNumbers] ?? vscode.TextEditorLineNumbersStyle.On;
-      editor.options = { lineNumbers: style };
-    }
-  }
+  private migrateToggledBars(): void {
+    const wbCfg = vscode.workspace.getConfiguration('workbench');
 
-  // ── Private ────────────────────────────────────────────────────
+    if (this.changed.statusBar) {
+      this.settingsSnapshot.statusBarVisible = !(wbCfg.get<boolean>('statusBar.visible') ?? true);
+    }
 
-  /** Rollback after a partial failure in hideChrome. */
-  private async restoreChromePartial(): Promise<void> {
-    try {
-      await this.restoreChrome();
-    } catch {
-      // Best-effort: swallow errors during rollback
+    if (this.changed.activityBar) {
+      if (UIManager.hasActivityBarLocation()) {
+        const location = wbCfg.get<string>('activityBar.location');
+        // A hidden bar was toggled off from an unknown position — assume the default
+        this.settingsSnapshot.activityBarLocation = location === 'hidden' ? 'default' : 'hidden';
+      } else {
+        this.settingsSnapshot.activityBarVisible = !(wbCfg.get<boolean>('activityBar.visible') ?? true);
+      }
     }
   }
 
+  /** Whether this VS Code has `workbench.activityBar.location` (1.86+). */
+  private static hasActivityBarLocation(): boolean {
+    const inspected = vscode.workspace.getConfiguration('workbench').inspect('activityBar.location');
+    return inspected?.defaultValue !== undefined;
+  }
+
   private freshLedger(): ChangedByFocusMode {
     return {
       sideBar: false,
@@ -450,15 +770,7 @@ export class UIManager {
       layoutControl: false,
       lineNumbers: false,
       zoom: false,
+      typewriterPadding: false,
     };
   }
-
-  private async getContextBoolean(key: string): Promise<boolean> {
-    try {
-      const value = await vscode.commands.executeCommand<unknown>('getContextKeyValue', key);
-      return value === true;
-    } catch {
-      return false;
-    }
-  }
 }
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { FocusModeConfig, getConfig, parseEnterOptions } from './config';
+import { FocusMode } from './focusMode';
+
+/** Parsed `vscode://prabinpebam.vscode-focus-mode/enter?...` query. */
+export interface EnterQuery {
+  /** Absolute path, or relative to the first workspace folder. */
+  file?: string;
+  /** 1-based line to put the cursor on. */
+  line?: number;
+  /** 1-based column; defaults to the start of the line. */
+  column?: number;
+  /** `preset` plus `FocusModeConfig` fields, for `parseEnterOptions`. */
+  arg: Record<string, unknown>;
+}
+
+/**
+ * Handles `vscode://prabinpebam.vscode-focus-mode/enter?file=...&line=...&preset=...`
+ * so scripts, terminals and other tools can open a document and enter focus
+ * mode in one step. Any other query parameter named after a `FocusModeConfig`
+ * field overrides it for that session, e.g. `&contextLines=2`.
+ */
+export class FocusUriHandler implements vscode.UriHandler {
+  constructor(private focusMode: FocusMode) {}
+
+  async handleUri(uri: vscode.Uri): Promise<void> {
+    if (uri.path !== '/enter') {
+      vscode.window.showErrorMessage(`Focus Mode: Unknown link "${uri.path}". Use /enter.`);
+      return;
+    }
+
+    const query = FocusUriHandler.parseQuery(uri.query, getConfig());
+    if (query.file !== undefined) {
+      try {
+        await FocusUriHandler.open(query);
+      } catch (err) {
+        vscode.window.showErrorMessage(`Focus Mode: Could not open ${query.file}. ${err}`);
+        return;
+      }
+    }
+    try {
+      await this.focusMode.enterWith(parseEnterOptions(query.arg));
+    } catch (err) {
+      vscode.window.showErrorMessage(`Focus Mode: Could not enter focus mode. ${err}`);
+    }
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /**
+   * Split a URI query into the target location and the focus mode arguments.
+   * Values are coerced to the type of the matching field in `defaults`:
+   * `true`/`false` for booleans, numbers, and comma-separated lists for arrays.
+   * Values that don't fit are passed on as strings and dropped by `parseEnterOptions`.
+   */
+  static parseQuery(query: string, defaults: FocusModeConfig): EnterQuery {
+    const params = new URLSearchParams(query);
+    const result: EnterQuery = { arg: {} };
+
+    for (const [key, value] of params) {
+      if (key === 'file') {
+        result.file = value;
+      } else if (key === 'line' || key === 'column') {
+        const n = parseInt(value, 10);
+        if (Number.isFinite(n) && n >= 1) { result[key] = n; }
+      } else {
+        result.arg[key] = coerce(value, defaults[key as keyof FocusModeConfig]);
+      }
+    }
+    return result;
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  private static async open(query: EnterQuery): Promise<void> {
+    const file = query.file ?? '';
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const isAbsolute = /^([a-zA-Z]:[\\/]|[\\/])/.test(file);
+    const target = isAbsolute || !folder ? vscode.Uri.file(file) : vscode.Uri.joinPath(folder.uri, file);
+
+    const doc = await vscode.workspace.openTextDocument(target);
+    const line = Math.min((query.line ?? 1) - 1, doc.lineCount - 1);
+    const position = doc.validatePosition(new vscode.Position(line, (query.column ?? 1) - 1));
+    await vscode.window.showTextDocument(doc, {
+      selection: new vscode.Range(position, position),
+      preview: false,
+    });
+  }
+}
+
+function coerce(value: string, expected: unknown): unknown {
+  if (typeof expected === 'boolean') {
+    return value === 'true' ? true : value === 'false' ? false : value;
+  }
+  if (typeof expected === 'number') {
+    const n = Number(value);
+    return value.trim() !== '' && Number.isFinite(n) ? n : value;
+  }
+  if (Array.isArray(expected)) {
+    return value.split(',').map((item) => item.trim()).filter((item) => item !== '');
+  }
+  return value;
+}
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+
+/** A window's claim on focus mode, refreshed by heartbeat while the session lasts. */
+export interface Lease {
+  heartbeat: number;
+  /** When the window entered; the earliest live lease owns the settings snapshot. */
+  since?: number;
+}
+
+const LEASES_KEY = 'focusMode.windowLeases';
+const WINDOW_ID_KEY = 'focusMode.windowId';
+const HEARTBEAT_INTERVAL_MS = 10_000;
+/** A lease not refreshed for this long belongs to a window that died or hung. */
+const LEASE_TTL_MS = 35_000;
+
+/**
+ * Coordinates focus mode across VS Code windows.
+ *
+ * Chrome settings are written with `ConfigurationTarget.Global`, so every
+ * window shares them. Each window in focus mode holds a lease in the shared
+ * globalState; only the first window to enter snapshots the settings and
+ * only the last window to exit restores them. Leases carry a heartbeat so a
+ * crashed window's lease expires instead of blocking the restore forever.
+ *
+ * All leases live in one globalState entry, updated by read-modify-write.
+ * Two windows entering at once can both read it before either write lands;
+ * `acquire` re-reads after writing so both settle on the same owner (the
+ * earliest entry). Storage reaches other windows asynchronously, though, so
+ * a narrow window remains in which both take the snapshot.
+ */
+export class WindowCoordinator {
+  private readonly windowId: string;
+  private lease: Lease | undefined;
+  private heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * @param windowState Storage that survives reloads of this window only
+   *                    (workspace state, when a folder or workspace is open).
+   *                    The lease id is kept there, so a reloaded window
+   *                    recognizes its own lease instead of waiting out the TTL.
+   */
+  constructor(private globalState: vscode.Memento, windowState?: vscode.Memento) {
+    this.windowId = windowState?.get<string>(WINDOW_ID_KEY)
+      ?? `${process.pid}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    void windowState?.update(WINDOW_ID_KEY, this.windowId);
+  }
+
+  /**
+   * Take a lease for this window.
+   * Returns true if no other window holds an earlier live lease, i.e. this
+   * window owns the shared settings snapshot.
+   */
+  async acquire(): Promise<boolean> {
+    const now = Date.now();
+    this.lease = { heartbeat: now, since: now };
+    const leases = this.liveLeases();
+    const first = !WindowCoordinator.othersActive(leases, this.windowId);
+    leases[this.windowId] = this.lease;
+    await this.globalState.update(LEASES_KEY, leases);
+    this.startHeartbeat();
+
+    // A window entering at the same time may have read the leases before our
+    // write, and also think it is first. Another window's write may also have
+    // replaced ours; the heartbeat puts it back.
+    const settled = this.liveLeases();
+    settled[this.windowId] = this.lease;
+    return first && WindowCoordinator.owner(settled) === this.windowId;
+  }
+
+  /**
+   * Give up this window's lease.
+   * Returns true if no other window holds a live lease, i.e. this window
+   * should restore the shared settings.
+   */
+  async release(): Promise<boolean> {
+    this.stopHeartbeat();
+    this.lease = undefined;
+    const leases = this.liveLeases();
+    delete leases[this.windowId];
+    await this.globalState.update(LEASES_KEY, leases);
+    return !WindowCoordinator.othersActive(leases, this.windowId);
+  }
+
+  /** Whether any other window currently holds a live lease. */
+  othersActive(): boolean {
+    return WindowCoordinator.othersActive(this.liveLeases(), this.windowId);
+  }
+
+  /** How long to wait before a lease that stopped heartbeating is considered dead. */
+  get leaseTtl(): number {
+    return LEASE_TTL_MS;
+  }
+
+  dispose(): void {
+    this.stopHeartbeat();
+  }
+
+  // ── Pure helpers (static for testability) ──────────────────────────
+
+  /** The leases in `stored` refreshed within the TTL before `now`. */
+  static liveLeases(stored: Record<string, Lease> | undefined, now: number): Record<string, Lease> {
+    const live: Record<string, Lease> = {};
+    for (const [id, lease] of Object.entries(stored ?? {})) {
+      if (now - lease.heartbeat < LEASE_TTL_MS) {
+        live[id] = lease;
+      }
+    }
+    return live;
+  }
+
+  /**
+   * The window owning the settings snapshot: the earliest entry, ties broken
+   * by id so every window picks the same one. Leases from before `since` was
+   * recorded count as earliest.
+   */
+  static owner(leases: Record<string, Lease>): string | undefined {
+    let best: string | undefined;
+    for (const [id, lease] of Object.entries(leases)) {
+      const since = lease.since ?? 0;
+      const bestSince = best === undefined ? Infinity : leases[best].since ?? 0;
+      if (since < bestSince || (since === bestSince && best !== undefined && id < best)) {
+        best = id;
+      }
+    }
+    return best;
+  }
+
+  /** Whether `leases` has one held by a window other than `windowId`. */
+  static othersActive(leases: Record<string, Lease>, windowId: string): boolean {
+    return Object.keys(leases).some((id) => id !== windowId);
+  }
+
+  // ── Private ────────────────────────────────────────────────────
+
+  /** Current leases with expired ones dropped. */
+  private liveLeases(): Record<string, Lease> {
+    return WindowCoordinator.liveLeases(this.globalState.get<Record<string, Lease>>(LEASES_KEY), Date.now());
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.lease) { return; }
+      this.lease = { ...this.lease, heartbeat: Date.now() };
+      const leases = this.liveLeases();
+      leases[this.windowId] = this.lease;
+      this.globalState.update(LEASES_KEY, leases).then(undefined, () => {
+        // The next beat writes again, well within the TTL
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+}